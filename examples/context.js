@@ -9,7 +9,20 @@
  */
 
 // Import the logger
-const { initializeLogger, createLogger, getCurrentLogger } = require('otel-http-logger');
+const {
+  initializeLogger,
+  createLogger,
+  getCurrentLogger,
+  setContextAttributes,
+  createInstrumentedFetch
+} = require('otel-http-logger');
+
+// Logs outbound calls and adds a traceparent header to them. The stats service is
+// simulated here; pass nothing to wrap the global fetch.
+const instrumentedFetch = createInstrumentedFetch(async () => {
+  await new Promise(resolve => setTimeout(resolve, 75));
+  return new Response(JSON.stringify({ processed: true }), { status: 200 });
+});
 
 // Get HyperDX API key from environment variable
 const HYPERDX_API_KEY = process.env.HYPERDX_API_KEY;
@@ -43,8 +56,9 @@ class ExampleServer {
   
   // Simulate handling a request
   async handleRequest(method, path, body) {
-    // Use withLogger to set the current logger in the async context
-    return this.logger.withLogger(async () => {
+    // Use withRequest to give each request its own trace ID and attributes,
+    // while sharing the root logger's connection and queue
+    return this.logger.withRequest(async () => {
       // Create a request-specific logger
       const requestLogger = createLogger('request');
       
@@ -75,7 +89,7 @@ class ExampleServer {
         requestLogger.error('Request failed', error);
         throw error;
       }
-    });
+    }, { 'http.method': method, 'http.route': path }, { flush: true });
   }
   
   // Middleware examples
@@ -86,6 +100,8 @@ class ExampleServer {
     // Simulate authentication check
     await new Promise(resolve => setTimeout(resolve, 50));
     
+    // Every log emitted later in this request now includes the user ID
+    setContextAttributes({ 'user.id': 'user-42' });
     logger.debug('Authentication successful');
   }
   
@@ -141,8 +157,11 @@ class ExampleServer {
     const logger = createLogger('service:userStats');
     logger.info('Calling user stats service', { userCount: users.length });
     
-    // Simulate external service call
-    await new Promise(resolve => setTimeout(resolve, 75));
+    // Logged as "[fetch] POST https://stats.example.com/v1/users?source=REDACTED 200 in 75ms"
+    await instrumentedFetch('https://stats.example.com/v1/users?source=example', {
+      method: 'POST',
+      body: JSON.stringify({ count: users.length })
+    });
     
     logger.info('User stats service call completed');
   }
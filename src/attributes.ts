@@ -0,0 +1,132 @@
+/**
+ * OTLP Attribute Encoding
+ *
+ * Converts arbitrary JavaScript values into typed OTLP AnyValue variants
+ * so collectors receive numbers, booleans, arrays and maps as-is instead
+ * of stringified JSON.
+ */
+
+import { AnyValue, KeyValue } from './types';
+
+/**
+ * Default maximum nesting depth for arrays and objects
+ */
+export const DEFAULT_MAX_ATTRIBUTE_DEPTH = 8;
+
+/**
+ * Placeholder emitted for self-referencing values
+ */
+const CIRCULAR_PLACEHOLDER = '[Circular]';
+
+/**
+ * Encode bytes as base64 without relying on Node's Buffer
+ */
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i++) {
+    binary += String.fromCharCode(bytes[i]);
+  }
+  return btoa(binary);
+}
+
+/**
+ * Convert a JavaScript value into an OTLP AnyValue
+ * @param value The value to convert
+ * @param maxDepth Maximum nesting depth for arrays and objects
+ * @returns The typed AnyValue
+ */
+export function toAnyValue(value: unknown, maxDepth: number = DEFAULT_MAX_ATTRIBUTE_DEPTH): AnyValue {
+  return encodeValue(value, maxDepth, new WeakSet<object>());
+}
+
+/**
+ * Convert an attributes object into a list of OTLP key/value pairs
+ * @param attributes The attributes to convert
+ * @param maxDepth Maximum nesting depth for arrays and objects
+ * @returns The encoded key/value list
+ */
+export function toKeyValueList(
+  attributes: Record<string, unknown>,
+  maxDepth: number = DEFAULT_MAX_ATTRIBUTE_DEPTH
+): KeyValue[] {
+  const ancestors = new WeakSet<object>();
+  return Object.entries(attributes).map(([key, value]) => ({
+    key,
+    value: encodeValue(value, maxDepth, ancestors),
+  }));
+}
+
+/**
+ * Recursively encode a value, tracking the objects currently being visited
+ * so that cycles are replaced with a placeholder instead of recursing forever
+ */
+function encodeValue(value: unknown, depth: number, ancestors: WeakSet<object>): AnyValue {
+  if (value === null || value === undefined) {
+    return {};
+  }
+
+  switch (typeof value) {
+    case 'string':
+      return { stringValue: value };
+    case 'boolean':
+      return { boolValue: value };
+    case 'number':
+      if (Number.isSafeInteger(value)) {
+        return { intValue: String(value) };
+      }
+      // NaN and Infinity have no JSON representation as a double
+      return Number.isFinite(value) ? { doubleValue: value } : { stringValue: String(value) };
+    case 'bigint':
+      return { intValue: value.toString() };
+    case 'object':
+      break;
+    default:
+      // Functions and symbols
+      return { stringValue: String(value) };
+  }
+
+  const obj = value as object;
+
+  if (obj instanceof Date) {
+    return { stringValue: isNaN(obj.getTime()) ? String(obj) : obj.toISOString() };
+  }
+  if (obj instanceof Uint8Array) {
+    return { bytesValue: bytesToBase64(obj) };
+  }
+  if (obj instanceof ArrayBuffer) {
+    return { bytesValue: bytesToBase64(new Uint8Array(obj)) };
+  }
+
+  if (ancestors.has(obj)) {
+    return { stringValue: CIRCULAR_PLACEHOLDER };
+  }
+  if (depth <= 0) {
+    return { stringValue: Array.isArray(obj) || obj instanceof Set ? '[Array]' : '[Object]' };
+  }
+
+  ancestors.add(obj);
+  try {
+    if (Array.isArray(obj) || obj instanceof Set) {
+      return {
+        arrayValue: {
+          values: Array.from(obj).map(item => encodeValue(item, depth - 1, ancestors)),
+        },
+      };
+    }
+
+    const entries = obj instanceof Map
+      ? Array.from(obj.entries()).map(([k, v]) => [String(k), v] as const)
+      : Object.entries(obj);
+
+    return {
+      kvlistValue: {
+        values: entries.map(([key, item]) => ({
+          key,
+          value: encodeValue(item, depth - 1, ancestors),
+        })),
+      },
+    };
+  } finally {
+    ancestors.delete(obj);
+  }
+}
@@ -0,0 +1,345 @@
+/**
+ * Batch Processor
+ *
+ * Queues records and exports them in batches, either when the queue
+ * reaches the configured batch size or after a scheduled delay.
+ */
+
+import { BatchConfig, DropPolicy } from './types';
+
+/**
+ * Default batching configuration, matching the OpenTelemetry SDK defaults
+ */
+export const DEFAULT_BATCH_CONFIG: Required<BatchConfig> = {
+  maxExportBatchSize: 512,
+  scheduledDelayMillis: 1000,
+  maxQueueSize: 2048,
+  dropPolicy: 'newest',
+  maxConcurrentExports: 1,
+};
+
+/**
+ * Export function for a single batch
+ * Resolves to true when the batch was handled and false when it should be requeued
+ */
+export type BatchExportFn<T> = (batch: T[]) => Promise<boolean>;
+
+/**
+ * Optional hooks for a batch processor
+ */
+export interface BatchProcessorOptions<T> {
+  /** Severity of a record, used by the 'lowest-severity' drop policy */
+  getSeverity?: (item: T) => number;
+  
+  /** Called after a successful export when records were dropped since the last report */
+  onDropped?: (count: number) => void;
+}
+
+/**
+ * Batch Processor
+ * Buffers records and hands them to the export function in batches
+ */
+export class BatchProcessor<T> {
+  private queue: T[] = [];
+  private timer?: ReturnType<typeof setTimeout>;
+  private exporting = false;
+  private flushChain: Promise<void> = Promise.resolve();
+  private pendingFlush?: Promise<void>;
+  private exportBatch: BatchExportFn<T>;
+  private maxExportBatchSize: number;
+  private scheduledDelayMillis: number;
+  private maxQueueSize: number;
+  private dropPolicy: DropPolicy;
+  private maxConcurrentExports: number;
+  private options: BatchProcessorOptions<T>;
+  private dropped = 0;
+
+  /**
+   * Create a new batch processor
+   * @param exportBatch Function that exports a single batch
+   * @param config Batching configuration
+   * @param options Optional severity and drop-reporting hooks
+   */
+  constructor(exportBatch: BatchExportFn<T>, config: BatchConfig = {}, options: BatchProcessorOptions<T> = {}) {
+    this.exportBatch = exportBatch;
+    this.options = options;
+    this.dropPolicy = config.dropPolicy ?? DEFAULT_BATCH_CONFIG.dropPolicy;
+    this.maxQueueSize = Math.max(1, config.maxQueueSize ?? DEFAULT_BATCH_CONFIG.maxQueueSize);
+    this.scheduledDelayMillis = config.scheduledDelayMillis ?? DEFAULT_BATCH_CONFIG.scheduledDelayMillis;
+    this.maxConcurrentExports = Math.max(1, config.maxConcurrentExports ?? DEFAULT_BATCH_CONFIG.maxConcurrentExports);
+    // A batch can never be larger than the queue it is taken from
+    this.maxExportBatchSize = Math.min(
+      this.maxQueueSize,
+      Math.max(1, config.maxExportBatchSize ?? DEFAULT_BATCH_CONFIG.maxExportBatchSize)
+    );
+  }
+
+  /**
+   * Number of records waiting to be exported
+   */
+  get size(): number {
+    return this.queue.length;
+  }
+
+  /**
+   * Whether queued records are exported automatically by the flush timer
+   */
+  get isScheduled(): boolean {
+    return this.scheduledDelayMillis > 0;
+  }
+
+  /**
+   * Number of records dropped since the last successful export
+   */
+  get droppedCount(): number {
+    return this.dropped;
+  }
+
+  /**
+   * Add a record to the queue
+   * Triggers a background flush once a full batch is available
+   * @param item The record to queue
+   * @returns False if the record itself was dropped because the queue is full
+   */
+  add(item: T): boolean {
+    this.queue.push(item);
+
+    if (this.enforceQueueLimit().includes(item)) {
+      return false;
+    }
+
+    if (this.queue.length >= this.maxExportBatchSize) {
+      this.flushInBackground();
+    } else {
+      this.scheduleFlush();
+    }
+    return true;
+  }
+
+  /**
+   * Export queued records in batches
+   * Flushes run one after another, so a flush resolves once every record
+   * queued before it was called has been exported or requeued. Calls made
+   * while an earlier flush is running share the next flush.
+   * @param filter Optional predicate to export only matching records
+   * @returns Promise that resolves when the matching records have been drained
+   */
+  flush(filter?: (item: T) => boolean): Promise<void> {
+    if (!filter && this.pendingFlush) {
+      return this.pendingFlush;
+    }
+
+    const flush = this.flushChain.then(() => {
+      if (!filter) {
+        this.pendingFlush = undefined;
+      }
+      return this.exportQueued(filter);
+    });
+
+    if (!filter) {
+      this.pendingFlush = flush;
+    }
+    this.flushChain = flush.catch(() => {});
+    return flush;
+  }
+
+  /**
+   * Export queued records, keeping up to maxConcurrentExports batches in flight
+   * Stops taking batches at the first failure and puts every failed batch back
+   * in front of the queue, in its original order.
+   * @param filter Optional predicate to export only matching records
+   */
+  private async exportQueued(filter?: (item: T) => boolean): Promise<void> {
+    if (!filter) {
+      this.clearTimer();
+    }
+
+    const batches: T[][] = [];
+    const failed = new Set<T[]>();
+    const inFlight = new Set<Promise<void>>();
+    let error: unknown;
+
+    const exportOne = async (batch: T[]) => {
+      try {
+        if (await this.exportBatch(batch)) {
+          this.reportDropped();
+        } else {
+          failed.add(batch);
+        }
+      } catch (exportError) {
+        // Batches whose export throws are not requeued
+        error ??= exportError;
+      }
+    };
+
+    for (;;) {
+      while (inFlight.size < this.maxConcurrentExports && failed.size === 0 && error === undefined) {
+        const batch = this.takeBatch(filter);
+        if (batch.length === 0) {
+          break;
+        }
+
+        batches.push(batch);
+        const exporting: Promise<void> = exportOne(batch).then(() => {
+          inFlight.delete(exporting);
+        });
+        inFlight.add(exporting);
+      }
+
+      if (inFlight.size === 0) {
+        break;
+      }
+      await Promise.race(inFlight);
+    }
+
+    if (failed.size > 0) {
+      // Put failed batches back in front of anything queued while they were exporting
+      this.queue = [...batches.filter(batch => failed.has(batch)).flat(), ...this.queue];
+      this.enforceQueueLimit();
+    }
+
+    if (error !== undefined) {
+      throw error;
+    }
+  }
+
+  /**
+   * Remove and return every queued record without exporting it
+   * Cancels the scheduled flush.
+   * @returns The records that were queued
+   */
+  drain(): T[] {
+    this.clearTimer();
+    const drained = this.queue;
+    this.queue = [];
+    return drained;
+  }
+
+  /**
+   * Remove the next batch of records from the queue
+   * @param filter Optional predicate selecting which records to take
+   */
+  private takeBatch(filter?: (item: T) => boolean): T[] {
+    if (!filter) {
+      return this.queue.splice(0, this.maxExportBatchSize);
+    }
+
+    const batch: T[] = [];
+    const remaining: T[] = [];
+    for (const item of this.queue) {
+      if (batch.length < this.maxExportBatchSize && filter(item)) {
+        batch.push(item);
+      } else {
+        remaining.push(item);
+      }
+    }
+    this.queue = remaining;
+    return batch;
+  }
+
+  /**
+   * Drop records according to the drop policy until the queue fits
+   * @returns The records that were dropped
+   */
+  private enforceQueueLimit(): T[] {
+    const dropped: T[] = [];
+    while (this.queue.length > this.maxQueueSize) {
+      switch (this.dropPolicy) {
+        case 'oldest':
+          dropped.push(...this.queue.splice(0, 1));
+          break;
+        case 'lowest-severity':
+          dropped.push(...this.queue.splice(this.findLowestSeverityIndex(), 1));
+          break;
+        default:
+          dropped.push(...this.queue.splice(-1, 1));
+      }
+    }
+    this.dropped += dropped.length;
+    return dropped;
+  }
+
+  /**
+   * Find the oldest record with the lowest severity
+   */
+  private findLowestSeverityIndex(): number {
+    const getSeverity = this.options.getSeverity;
+    if (!getSeverity) {
+      return 0;
+    }
+
+    let lowestIndex = 0;
+    let lowestSeverity = getSeverity(this.queue[0]);
+    for (let i = 1; i < this.queue.length; i++) {
+      const severity = getSeverity(this.queue[i]);
+      if (severity < lowestSeverity) {
+        lowestIndex = i;
+        lowestSeverity = severity;
+      }
+    }
+    return lowestIndex;
+  }
+
+  /**
+   * Report dropped records once an export has succeeded
+   */
+  private reportDropped(): void {
+    if (this.dropped === 0) {
+      return;
+    }
+
+    const count = this.dropped;
+    this.dropped = 0;
+    this.options.onDropped?.(count);
+  }
+
+  /**
+   * Start a flush without waiting for it, unless one is already running
+   */
+  private flushInBackground(): void {
+    if (this.exporting) {
+      return;
+    }
+
+    this.exporting = true;
+    this.flush()
+      .catch(() => {})
+      .finally(() => {
+        this.exporting = false;
+        // Pick up records queued while this flush was running
+        if (this.queue.length > 0) {
+          this.scheduleFlush();
+        }
+      });
+  }
+
+  /**
+   * Schedule a flush after the configured delay
+   * The timer is unref'd so it never keeps the process alive
+   */
+  private scheduleFlush(): void {
+    if (this.timer || this.scheduledDelayMillis <= 0) {
+      return;
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      this.flushInBackground();
+    }, this.scheduledDelayMillis);
+
+    const timer = this.timer as { unref?: () => void };
+    if (typeof timer.unref === 'function') {
+      timer.unref();
+    }
+  }
+
+  /**
+   * Cancel the scheduled flush, if any
+   */
+  private clearTimer(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = undefined;
+    }
+  }
+}
@@ -0,0 +1,49 @@
+/**
+ * Payload Compression
+ *
+ * Gzip-compresses export payloads using the standard CompressionStream API
+ * where it exists (browsers, Bun, Deno, Workers, Node.js 18+) and falls back
+ * to zlib, registered by the Node.js entry point, on older Node.js versions.
+ */
+
+/**
+ * Gzip implementation used where CompressionStream is unavailable
+ */
+export type GzipFunction = (data: Uint8Array) => Promise<Uint8Array>;
+
+// Gzip fallback registered by the Node.js entry point, if any
+let registeredGzip: GzipFunction | undefined;
+
+/**
+ * Register the gzip implementation used where CompressionStream is unavailable
+ * The Node.js entry point registers one based on zlib.
+ * @param gzipFn The gzip implementation
+ */
+export function registerGzip(gzipFn: GzipFunction): void {
+  registeredGzip = gzipFn;
+}
+
+/**
+ * Gzip-compress data with CompressionStream
+ */
+async function gzipWithCompressionStream(data: Uint8Array): Promise<Uint8Array> {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('gzip'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+/**
+ * Gzip-compress a payload
+ * @param data The payload to compress
+ * @returns The compressed bytes, or undefined if no gzip implementation is available
+ */
+export async function gzip(data: string | Uint8Array): Promise<Uint8Array | undefined> {
+  const bytes = typeof data === 'string' ? new TextEncoder().encode(data) : data;
+
+  if (typeof CompressionStream !== 'undefined') {
+    return gzipWithCompressionStream(bytes);
+  }
+  if (registeredGzip) {
+    return registeredGzip(bytes);
+  }
+  return undefined;
+}
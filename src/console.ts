@@ -0,0 +1,204 @@
+/**
+ * Console Output
+ *
+ * Formats log records for the console:
+ * - 'simple': `[service] [LEVEL] message` followed by the raw attributes (default)
+ * - 'pretty': colorized, aligned, human-friendly lines with timestamps
+ * - 'json': one JSON object per line with the OTLP record fields, for log shippers
+ * - 'off': no console output
+ * A custom formatter function can be used instead of a mode.
+ */
+
+import { mapLogLevelToSeverityNumber } from './otel';
+import { ConsoleEntry, ConsoleOutput, LogLevel } from './types';
+
+/**
+ * ANSI color codes for each level
+ */
+const LEVEL_COLORS: Record<LogLevel, string> = {
+  [LogLevel.DEBUG]: '\x1b[90m', // Gray
+  [LogLevel.INFO]: '\x1b[36m',  // Cyan
+  [LogLevel.WARN]: '\x1b[33m',  // Yellow
+  [LogLevel.ERROR]: '\x1b[31m', // Red
+};
+
+const DIM = '\x1b[2m';
+const RESET = '\x1b[0m';
+
+/**
+ * Check whether the console supports ANSI colors
+ * Colors are used on Node.js/Bun/Deno terminals unless NO_COLOR is set.
+ */
+function supportsColor(): boolean {
+  try {
+    return typeof process !== 'undefined'
+      && !process.env?.NO_COLOR
+      && Boolean((process.stdout as { isTTY?: boolean } | undefined)?.isTTY);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Convert a value to JSON-safe data
+ * Handles circular references, bigints, errors and byte arrays.
+ */
+export function toJsonSafe(value: any, seen: WeakSet<object> = new WeakSet()): any {
+  if (typeof value === 'bigint') {
+    return value.toString();
+  }
+  if (value === null || typeof value !== 'object') {
+    return typeof value === 'function' || typeof value === 'symbol' ? String(value) : value;
+  }
+  if (seen.has(value)) {
+    return '[Circular]';
+  }
+  seen.add(value);
+
+  let result: any;
+  if (value instanceof Error) {
+    result = { name: value.name, message: value.message, stack: value.stack };
+  } else if (value instanceof Date) {
+    result = value.toISOString();
+  } else if (value instanceof Uint8Array) {
+    result = Array.from(value);
+  } else if (Array.isArray(value)) {
+    result = value.map(item => toJsonSafe(item, seen));
+  } else {
+    result = {};
+    for (const [key, item] of Object.entries(value)) {
+      result[key] = toJsonSafe(item, seen);
+    }
+  }
+
+  seen.delete(value);
+  return result;
+}
+
+/**
+ * Prefix a message with its context, as in the exported record body
+ */
+function formatMessage(entry: ConsoleEntry): string {
+  return entry.context ? `[${entry.context}] ${entry.message}` : entry.message;
+}
+
+/**
+ * Format an attribute value for pretty output
+ */
+function formatValue(value: any): string {
+  if (typeof value === 'string') {
+    return /[\s"=]/.test(value) || value === '' ? JSON.stringify(value) : value;
+  }
+  const json = JSON.stringify(toJsonSafe(value));
+  return json === undefined ? String(value) : json;
+}
+
+/**
+ * Format exception attributes for the console: the stacktrace, or the type and message
+ */
+function formatException(exception: Record<string, any>): string {
+  const stacktrace = exception['exception.stacktrace'];
+  return typeof stacktrace === 'string'
+    ? stacktrace
+    : `${exception['exception.type']}: ${exception['exception.message']}`;
+}
+
+/**
+ * Format an entry as a colorized, aligned line with a timestamp
+ * @param entry The entry to format
+ * @param colors Whether to use ANSI colors (default: detected from the terminal)
+ * @returns The formatted line, followed by the error stack if any
+ */
+export function formatPretty(entry: ConsoleEntry, colors: boolean = supportsColor()): string {
+  const paint = (code: string, text: string) => colors ? `${code}${text}${RESET}` : text;
+
+  const level = paint(LEVEL_COLORS[entry.level], entry.level.padEnd(5));
+  const context = entry.context ? ` ${paint(DIM, `[${entry.context}]`)}` : '';
+  const attributes = Object.entries(entry.attributes ?? {})
+    .map(([key, value]) => ` ${paint(DIM, `${key}=`)}${formatValue(value)}`)
+    .join('');
+
+  let line = `${paint(DIM, entry.timestamp.toISOString())} ${level} ${paint(DIM, `[${entry.serviceName}]`)}${context} ${entry.message}${attributes}`;
+  if (entry.exception) {
+    line += `\n${formatException(entry.exception)}`;
+  }
+  return line;
+}
+
+/**
+ * Format an entry as a single JSON line with the OTLP log record fields
+ * @param entry The entry to format
+ * @returns The JSON line
+ */
+export function formatJson(entry: ConsoleEntry): string {
+  // Same body and error attributes as the exported OTLP record
+  const attributes = { ...entry.attributes, ...entry.exception };
+
+  return JSON.stringify({
+    timestamp: `${entry.timestamp.getTime()}000000`,
+    severityNumber: mapLogLevelToSeverityNumber(entry.level),
+    severityText: entry.level,
+    body: formatMessage(entry),
+    traceId: entry.traceId,
+    spanId: entry.spanId,
+    resource: {
+      'service.name': entry.serviceName,
+      'deployment.environment': entry.environment,
+    },
+    attributes: toJsonSafe(attributes),
+  });
+}
+
+/**
+ * Format an entry in the original `[service] [LEVEL] message` style
+ */
+function formatSimple(entry: ConsoleEntry): string {
+  return `[${entry.serviceName}] [${entry.level}] ${formatMessage(entry)}`;
+}
+
+/**
+ * Get the console method name for a level
+ */
+function consoleMethod(level: LogLevel): 'debug' | 'info' | 'warn' | 'error' {
+  switch (level) {
+    case LogLevel.DEBUG: return 'debug';
+    case LogLevel.WARN:  return 'warn';
+    case LogLevel.ERROR: return 'error';
+    default:             return 'info';
+  }
+}
+
+/**
+ * Write an entry to the console
+ * @param output The console mode or custom formatter
+ * @param entry The entry to write
+ */
+export function writeConsole(output: ConsoleOutput, entry: ConsoleEntry): void {
+  const method = consoleMethod(entry.level);
+
+  if (typeof output === 'function') {
+    const line = output(entry);
+    if (line !== undefined) {
+      console[method](line);
+    }
+    return;
+  }
+
+  switch (output) {
+    case 'off':
+      return;
+    case 'json':
+      // Single stream so shippers reading stdout see every record
+      console.log(formatJson(entry));
+      return;
+    case 'pretty':
+      console[method](formatPretty(entry));
+      return;
+    default:
+      if (entry.level === LogLevel.ERROR) {
+        console[method](formatSimple(entry), entry.exception ? formatException(entry.exception) : '', entry.attributes || '');
+      } else {
+        console[method](formatSimple(entry), entry.attributes || '');
+      }
+  }
+}
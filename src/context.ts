@@ -0,0 +1,138 @@
+/**
+ * Async Context Management
+ *
+ * Stores the current logger, span and attributes for each async context.
+ * Uses AsyncLocalStorage where the runtime provides it (Node.js, Bun, Deno,
+ * Workers with nodejs_compat) and falls back to a synchronous stack elsewhere,
+ * without importing 'async_hooks' so the module bundles for browsers.
+ */
+
+import { ContextManager } from './types';
+
+/**
+ * Constructor of AsyncLocalStorage, or of a compatible implementation
+ */
+export type AsyncLocalStorageConstructor = new <T>() => ContextManager<T>;
+
+// AsyncLocalStorage registered by the Node.js entry point, if any
+let registeredAsyncLocalStorage: AsyncLocalStorageConstructor | undefined;
+
+/**
+ * Register the AsyncLocalStorage implementation used by new context managers
+ * The Node.js entry point registers the one from 'async_hooks'.
+ * @param storage The AsyncLocalStorage constructor
+ */
+export function registerAsyncLocalStorage(storage: AsyncLocalStorageConstructor): void {
+  registeredAsyncLocalStorage = storage;
+}
+
+/**
+ * Find an AsyncLocalStorage implementation without a static import
+ * Checks the registered one, a global (Workers with nodejs_compat) and
+ * process.getBuiltinModule (Node.js 20.16+, Bun).
+ */
+function findAsyncLocalStorage(): AsyncLocalStorageConstructor | undefined {
+  if (registeredAsyncLocalStorage) {
+    return registeredAsyncLocalStorage;
+  }
+
+  const globals = globalThis as any;
+  if (typeof globals.AsyncLocalStorage === 'function') {
+    return globals.AsyncLocalStorage;
+  }
+
+  const getBuiltinModule = globals.process?.getBuiltinModule;
+  if (typeof getBuiltinModule === 'function') {
+    try {
+      return getBuiltinModule.call(globals.process, 'async_hooks')?.AsyncLocalStorage;
+    } catch {
+      return undefined;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Synchronous Stack Context Manager
+ * A context is only active while its function runs synchronously: code after
+ * the first `await` no longer sees it. Used where AsyncLocalStorage is unavailable.
+ */
+export class StackContextManager<T> implements ContextManager<T> {
+  private stack: T[] = [];
+
+  /**
+   * Get the innermost active store
+   */
+  getStore(): T | undefined {
+    return this.stack[this.stack.length - 1];
+  }
+
+  /**
+   * Run a function with a store active until it returns
+   * @param store The store to activate
+   * @param fn The function to run
+   * @returns The result of the function
+   */
+  run<R>(store: T, fn: () => R): R {
+    this.stack.push(store);
+    try {
+      return fn();
+    } finally {
+      this.stack.pop();
+    }
+  }
+}
+
+/**
+ * Create a context manager for the current runtime
+ * @returns An AsyncLocalStorage if available, otherwise a StackContextManager
+ */
+export function createContextManager<T>(): ContextManager<T> {
+  const AsyncLocalStorage = findAsyncLocalStorage();
+  return AsyncLocalStorage ? new AsyncLocalStorage<T>() : new StackContextManager<T>();
+}
+
+/**
+ * Context Store
+ * Creates its context manager on first use, so an implementation registered
+ * after this module is loaded (or set explicitly) is still picked up.
+ */
+export class ContextStore<T> implements ContextManager<T> {
+  private manager?: ContextManager<T>;
+
+  /**
+   * Replace the context manager
+   * Contexts active in the previous manager are not carried over.
+   * @param manager The context manager to use
+   */
+  setManager(manager: ContextManager<T>): void {
+    this.manager = manager;
+  }
+
+  /**
+   * Get the active store, if any
+   */
+  getStore(): T | undefined {
+    return this.resolve().getStore();
+  }
+
+  /**
+   * Run a function with a store active
+   * @param store The store to activate
+   * @param fn The function to run
+   * @returns The result of the function
+   */
+  run<R>(store: T, fn: () => R): R {
+    return this.resolve().run(store, fn);
+  }
+
+  /**
+   * Get the context manager, creating it on first use
+   */
+  private resolve(): ContextManager<T> {
+    if (!this.manager) {
+      this.manager = createContextManager<T>();
+    }
+    return this.manager;
+  }
+}
@@ -0,0 +1,173 @@
+/**
+ * OpenTelemetry Environment Variables
+ *
+ * Reads the standard OTEL_* environment variables so the logger can be
+ * configured without code. Runtimes without process.env (browsers, Workers)
+ * simply yield no settings.
+ */
+
+import { parseLogLevel } from './levels';
+import { LoggerConfig, CompressionAlgorithm } from './types';
+
+/**
+ * Default service name defined by the OpenTelemetry resource semantic conventions
+ */
+export const DEFAULT_SERVICE_NAME = 'unknown_service';
+
+/**
+ * Read an environment variable without assuming process.env exists
+ * @param name Variable name
+ * @returns The trimmed value, or undefined if unset or empty
+ */
+export function readEnv(name: string): string | undefined {
+  try {
+    if (typeof process === 'undefined' || !process.env) {
+      return undefined;
+    }
+    const value = process.env[name]?.trim();
+    return value ? value : undefined;
+  } catch {
+    // Some runtimes throw when environment access is not permitted
+    return undefined;
+  }
+}
+
+/**
+ * Parse a comma-separated list of key=value pairs with URL-encoded values,
+ * as used by OTEL_EXPORTER_OTLP_HEADERS and OTEL_RESOURCE_ATTRIBUTES.
+ * Malformed entries are skipped.
+ * @param value The raw list
+ * @returns The parsed key/value pairs
+ */
+export function parseKeyValueList(value: string | undefined): Record<string, string> {
+  const result: Record<string, string> = {};
+  if (!value) {
+    return result;
+  }
+
+  for (const entry of value.split(',')) {
+    const separator = entry.indexOf('=');
+    if (separator <= 0) {
+      continue;
+    }
+
+    const key = entry.substring(0, separator).trim();
+    const rawValue = entry.substring(separator + 1).trim();
+    if (!key) {
+      continue;
+    }
+
+    try {
+      result[key] = decodeURIComponent(rawValue);
+    } catch {
+      result[key] = rawValue;
+    }
+  }
+  return result;
+}
+
+/**
+ * Append a signal path to a base OTLP endpoint
+ */
+function appendSignalPath(baseEndpoint: string, path: string): string {
+  return `${baseEndpoint.replace(/\/+$/, '')}/${path}`;
+}
+
+/**
+ * Map an OTEL_EXPORTER_OTLP_COMPRESSION value to a compression algorithm
+ */
+function parseCompression(value: string | undefined): CompressionAlgorithm | undefined {
+  const compression = value?.toLowerCase();
+  return compression === 'gzip' || compression === 'none' ? compression : undefined;
+}
+
+/**
+ * Read logger settings from the standard OpenTelemetry environment variables
+ * @returns The settings that are present in the environment
+ */
+export function getEnvConfig(): Partial<LoggerConfig> {
+  const config: Partial<LoggerConfig> = {};
+
+  const baseEndpoint = readEnv('OTEL_EXPORTER_OTLP_ENDPOINT');
+  const logsEndpoint = readEnv('OTEL_EXPORTER_OTLP_LOGS_ENDPOINT');
+  if (logsEndpoint) {
+    config.endpoint = logsEndpoint;
+  } else if (baseEndpoint) {
+    config.endpoint = appendSignalPath(baseEndpoint, 'v1/logs');
+  }
+  if (baseEndpoint) {
+    config.tracesEndpoint = appendSignalPath(baseEndpoint, 'v1/traces');
+  }
+
+  const headers = parseKeyValueList(readEnv('OTEL_EXPORTER_OTLP_HEADERS'));
+  if (Object.keys(headers).length > 0) {
+    config.headers = headers;
+  }
+
+  const resourceAttributes = parseKeyValueList(readEnv('OTEL_RESOURCE_ATTRIBUTES'));
+  if (Object.keys(resourceAttributes).length > 0) {
+    config.resourceAttributes = resourceAttributes;
+  }
+
+  // OTEL_SERVICE_NAME takes precedence over service.name in OTEL_RESOURCE_ATTRIBUTES
+  const serviceName = readEnv('OTEL_SERVICE_NAME') ?? resourceAttributes['service.name'];
+  if (serviceName) {
+    config.serviceName = serviceName;
+  }
+
+  const environment = resourceAttributes['deployment.environment.name'] ?? resourceAttributes['deployment.environment'];
+  if (environment) {
+    config.environment = environment;
+  }
+
+  const level = parseLogLevel(readEnv('OTEL_LOG_LEVEL'));
+  if (level) {
+    config.level = level;
+  }
+
+  const compression = parseCompression(readEnv('OTEL_EXPORTER_OTLP_COMPRESSION'));
+  if (compression) {
+    config.compression = compression;
+  }
+
+  const timeout = parseInt(readEnv('OTEL_EXPORTER_OTLP_TIMEOUT') ?? '', 10);
+  if (timeout > 0) {
+    config.timeoutMillis = timeout;
+  }
+
+  return config;
+}
+
+/**
+ * Resolve a complete logger configuration from explicit settings and the environment
+ * Explicit settings take precedence; headers and resource attributes are merged per key.
+ * @param config Explicit configuration
+ * @returns The resolved configuration
+ */
+export function resolveConfig(config: Partial<LoggerConfig> = {}): LoggerConfig {
+  const envConfig = getEnvConfig();
+
+  // Drop explicit undefined values so they don't hide environment settings
+  const explicit = Object.fromEntries(
+    Object.entries(config).filter(([, value]) => value !== undefined)
+  ) as Partial<LoggerConfig>;
+
+  // An explicit logs endpoint also replaces the traces endpoint derived from the environment
+  if (explicit.endpoint !== undefined) {
+    delete envConfig.tracesEndpoint;
+  }
+
+  const resourceAttributes = envConfig.resourceAttributes || explicit.resourceAttributes
+    ? { ...envConfig.resourceAttributes, ...explicit.resourceAttributes }
+    : undefined;
+
+  return {
+    ...envConfig,
+    ...explicit,
+    endpoint: explicit.endpoint ?? envConfig.endpoint ?? '',
+    headers: { ...envConfig.headers, ...explicit.headers },
+    serviceName: explicit.serviceName ?? envConfig.serviceName ?? DEFAULT_SERVICE_NAME,
+    environment: explicit.environment ?? envConfig.environment ?? 'development',
+    ...(resourceAttributes ? { resourceAttributes } : {}),
+  };
+}
@@ -0,0 +1,162 @@
+/**
+ * Error Serialization
+ *
+ * Converts errors and other thrown values into attributes following the
+ * OpenTelemetry exception semantic conventions (`exception.type`,
+ * `exception.message`, `exception.stacktrace`), including cause chains,
+ * AggregateError members and custom fields such as `code`.
+ */
+
+/**
+ * Default number of nested causes and aggregated errors serialized below the top-level error
+ */
+export const DEFAULT_MAX_ERROR_DEPTH = 3;
+
+/**
+ * Fields read explicitly rather than copied as custom fields
+ */
+const RESERVED_FIELDS = new Set(['name', 'message', 'stack', 'cause', 'errors']);
+
+/**
+ * Custom fields named like an exception field, e.g. Stripe's or node-fetch's
+ * `type`; they are kept as `fields.<name>` instead of overwriting it
+ */
+const COLLIDING_FIELDS = new Set(['type', 'stacktrace']);
+
+/**
+ * Get the type of a thrown value: the error name, the class name or the primitive type
+ */
+function errorType(error: unknown): string {
+  if (error === null) {
+    return 'null';
+  }
+  if (typeof error !== 'object') {
+    return typeof error;
+  }
+
+  const name = (error as { name?: unknown }).name;
+  if (typeof name === 'string' && name) {
+    return name;
+  }
+  return error.constructor?.name || 'Object';
+}
+
+/**
+ * Get the message of a thrown value
+ */
+function errorMessage(error: unknown): string {
+  if (typeof error === 'string') {
+    return error;
+  }
+  if (typeof error !== 'object' || error === null) {
+    return String(error);
+  }
+
+  const message = (error as { message?: unknown }).message;
+  if (typeof message === 'string') {
+    return message;
+  }
+  if (error instanceof Error) {
+    return '';
+  }
+  try {
+    return JSON.stringify(error);
+  } catch {
+    return String(error);
+  }
+}
+
+/**
+ * Describe a thrown value as exception fields without the `exception.` prefix
+ * @param error The thrown value
+ * @param depth Remaining levels of nested errors to describe
+ * @param ancestors Errors currently being described, to detect cycles
+ */
+function describeError(error: unknown, depth: number, ancestors: WeakSet<object>): Record<string, any> {
+  const fields: Record<string, any> = {
+    type: errorType(error),
+    message: errorMessage(error),
+  };
+  if (typeof error !== 'object' || error === null) {
+    return fields;
+  }
+
+  const stack = (error as { stack?: unknown }).stack;
+  if (typeof stack === 'string') {
+    fields.stacktrace = stack;
+  }
+
+  ancestors.add(error);
+  const nested = (value: unknown) => describeNested(value, depth, ancestors);
+
+  for (const [key, value] of Object.entries(error)) {
+    if (!RESERVED_FIELDS.has(key) && value !== undefined) {
+      fields[COLLIDING_FIELDS.has(key) ? `fields.${key}` : key] = value instanceof Error ? nested(value) : value;
+    }
+  }
+
+  // cause and AggregateError#errors are non-enumerable own properties
+  const { cause, errors } = error as { cause?: unknown; errors?: unknown };
+  if (cause !== undefined) {
+    fields.cause = nested(cause);
+  }
+  if (Array.isArray(errors)) {
+    fields.errors = errors.map(nested);
+  }
+
+  ancestors.delete(error);
+  return fields;
+}
+
+/**
+ * Describe an error nested in another one
+ * Past the depth limit, or for cycles, only a one-line summary is kept.
+ */
+function describeNested(error: unknown, depth: number, ancestors: WeakSet<object>): Record<string, any> | string {
+  if (typeof error === 'object' && error !== null && ancestors.has(error)) {
+    return '[Circular]';
+  }
+  if (depth <= 0) {
+    return `${errorType(error)}: ${errorMessage(error)}`;
+  }
+  return describeError(error, depth - 1, ancestors);
+}
+
+/**
+ * Serialize a thrown value as OpenTelemetry exception attributes
+ * Errors, strings, plain objects and other values are all supported.
+ * @param error The thrown value
+ * @param maxDepth Number of nested causes and aggregated errors to serialize (default: 3)
+ * @returns Attributes such as `exception.type`, `exception.message`,
+ * `exception.stacktrace`, `exception.cause`, `exception.errors` and `exception.<field>`
+ */
+export function serializeError(error: unknown, maxDepth: number = DEFAULT_MAX_ERROR_DEPTH): Record<string, any> {
+  return toExceptionAttributes(errorFields(error, maxDepth));
+}
+
+/**
+ * Describe a thrown value as exception fields without the `exception.` prefix
+ * Lets the logger redact the fields under their own names before prefixing them.
+ * @param error The thrown value
+ * @param maxDepth Number of nested causes and aggregated errors to describe
+ */
+export function errorFields(error: unknown, maxDepth: number = DEFAULT_MAX_ERROR_DEPTH): Record<string, any> {
+  return describeError(error, maxDepth, new WeakSet());
+}
+
+/**
+ * Prefix exception fields with `exception.`
+ * @param fields Fields returned by errorFields
+ */
+export function toExceptionAttributes(fields: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(fields).map(([key, value]) => [`exception.${key}`, value]));
+}
+
+/**
+ * Format a thrown value for console output: its stack, or its type and message
+ * @param error The thrown value
+ */
+export function formatError(error: unknown): string {
+  const stack = (error as { stack?: unknown } | null | undefined)?.stack;
+  return typeof stack === 'string' ? stack : `${errorType(error)}: ${errorMessage(error)}`;
+}
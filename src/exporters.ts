@@ -0,0 +1,612 @@
+/**
+ * Log Exporters
+ *
+ * Built-in destinations for batches of OTLP records:
+ * - OtlpHttpExporter: sends records to an OTLP/HTTP collector
+ * - ConsoleExporter: prints records as JSON lines
+ * - InMemoryExporter: keeps records in memory for tests
+ */
+
+import {
+  OtlpHttpExporterConfig,
+  RetryConfig,
+  OtlpProtocol,
+  CompressionAlgorithm,
+  ExportResult,
+  ExportResultCode,
+  ExportOptions,
+  LogExporter,
+  LogRecord,
+  SpanRecord,
+  ExportLogsServiceRequest,
+  ExportTraceServiceRequest
+} from './types';
+import { encodeExportLogsServiceRequest, encodeExportTraceServiceRequest, decodeExportPartialSuccess } from './protobuf';
+import { gzip } from './compression';
+import { DEFAULT_RETRY_CONFIG, computeBackoff, isRetryableStatus, parseRetryAfter } from './retry';
+
+/**
+ * Maximum body size of a sendBeacon or fetch keepalive request (64 KiB)
+ */
+export const BEACON_SIZE_LIMIT = 65536;
+
+/**
+ * Default time before an export request is aborted, matching OTEL_EXPORTER_OTLP_TIMEOUT
+ */
+export const DEFAULT_EXPORT_TIMEOUT_MILLIS = 10000;
+
+/**
+ * Result for a successful export
+ */
+const SUCCESS: ExportResult = { code: ExportResultCode.SUCCESS };
+
+/**
+ * Result for an export attempted after shutdown
+ */
+function shutdownResult(): ExportResult {
+  return { code: ExportResultCode.FAILED, error: new Error('Exporter has been shut down') };
+}
+
+/**
+ * Derive the OTLP traces endpoint from a logs endpoint
+ * @returns The traces endpoint, or an empty string if it cannot be derived
+ */
+export function deriveTracesEndpoint(logsEndpoint: string): string {
+  return /\/v1\/logs\/?$/.test(logsEndpoint)
+    ? logsEndpoint.replace(/\/v1\/logs\/?$/, '/v1/traces')
+    : '';
+}
+
+/**
+ * Build export request headers for a protocol
+ * Protobuf requests always use the protobuf content type, replacing any
+ * Content-Type supplied in the configured headers.
+ */
+export function buildExportHeaders(protocol: OtlpProtocol, headers: Record<string, string>): Record<string, string> {
+  if (protocol !== 'http/protobuf') {
+    return {
+      'Content-Type': 'application/json',
+      ...headers
+    };
+  }
+
+  const exportHeaders: Record<string, string> = {};
+  Object.entries(headers).forEach(([key, value]) => {
+    if (key.toLowerCase() !== 'content-type') {
+      exportHeaders[key] = value;
+    }
+  });
+  exportHeaders['Content-Type'] = 'application/x-protobuf';
+  return exportHeaders;
+}
+
+/**
+ * Count the log records in an OTLP logs request
+ */
+function countLogRecords(batch: ExportLogsServiceRequest): number {
+  return batch.resourceLogs.reduce(
+    (total, resourceLogs) => total + resourceLogs.scopeLogs.reduce((sum, scopeLogs) => sum + scopeLogs.logRecords.length, 0),
+    0
+  );
+}
+
+/**
+ * Count the spans in an OTLP trace request
+ */
+function countSpans(batch: ExportTraceServiceRequest): number {
+  return batch.resourceSpans.reduce(
+    (total, resourceSpans) => total + resourceSpans.scopeSpans.reduce((sum, scopeSpans) => sum + scopeSpans.spans.length, 0),
+    0
+  );
+}
+
+/**
+ * Split an OTLP logs request into two requests with half of the records each
+ */
+function splitLogsRequest(batch: ExportLogsServiceRequest): ExportLogsServiceRequest[] {
+  const entries = batch.resourceLogs.flatMap(resourceLogs =>
+    resourceLogs.scopeLogs.flatMap(scopeLogs =>
+      scopeLogs.logRecords.map(record => ({ resourceLogs, scopeLogs, record }))
+    )
+  );
+  const middle = Math.ceil(entries.length / 2);
+
+  return [entries.slice(0, middle), entries.slice(middle)].map(part => {
+    const request: ExportLogsServiceRequest = { resourceLogs: [] };
+    for (const { resourceLogs, scopeLogs, record } of part) {
+      let resource = request.resourceLogs[request.resourceLogs.length - 1];
+      if (!resource || resource.resource !== resourceLogs.resource) {
+        resource = { resource: resourceLogs.resource, scopeLogs: [] };
+        request.resourceLogs.push(resource);
+      }
+      let scope = resource.scopeLogs[resource.scopeLogs.length - 1];
+      if (!scope || scope.scope !== scopeLogs.scope) {
+        scope = { scope: scopeLogs.scope, logRecords: [] };
+        resource.scopeLogs.push(scope);
+      }
+      scope.logRecords.push(record);
+    }
+    return request;
+  });
+}
+
+/**
+ * Split an OTLP trace request into two requests with half of the spans each
+ */
+function splitTraceRequest(batch: ExportTraceServiceRequest): ExportTraceServiceRequest[] {
+  const entries = batch.resourceSpans.flatMap(resourceSpans =>
+    resourceSpans.scopeSpans.flatMap(scopeSpans =>
+      scopeSpans.spans.map(span => ({ resourceSpans, scopeSpans, span }))
+    )
+  );
+  const middle = Math.ceil(entries.length / 2);
+
+  return [entries.slice(0, middle), entries.slice(middle)].map(part => {
+    const request: ExportTraceServiceRequest = { resourceSpans: [] };
+    for (const { resourceSpans, scopeSpans, span } of part) {
+      let resource = request.resourceSpans[request.resourceSpans.length - 1];
+      if (!resource || resource.resource !== resourceSpans.resource) {
+        resource = { resource: resourceSpans.resource, scopeSpans: [] };
+        request.resourceSpans.push(resource);
+      }
+      let scope = resource.scopeSpans[resource.scopeSpans.length - 1];
+      if (!scope || scope.scope !== scopeSpans.scope) {
+        scope = { scope: scopeSpans.scope, spans: [] };
+        resource.scopeSpans.push(scope);
+      }
+      scope.spans.push(span);
+    }
+    return request;
+  });
+}
+
+/**
+ * Wait for a promise, rejecting early if the signal is aborted
+ * Body reads of some fetch implementations ignore the request's abort signal.
+ */
+function untilAborted<T>(promise: Promise<T>, abortSignal?: AbortSignal): Promise<T> {
+  if (!abortSignal) {
+    return promise;
+  }
+  return new Promise<T>((resolve, reject) => {
+    if (abortSignal.aborted) {
+      reject(new Error('Aborted'));
+      return;
+    }
+    abortSignal.addEventListener('abort', () => reject(new Error('Aborted')), { once: true });
+    promise.then(resolve, reject);
+  });
+}
+
+/**
+ * OTLP/HTTP Exporter
+ * Sends logs and spans to an OTLP/HTTP collector with fetch
+ */
+export class OtlpHttpExporter implements LogExporter {
+  private endpoint: string;
+  private tracesEndpoint: string;
+  private headers: Record<string, string>;
+  private protocol: OtlpProtocol;
+  private compression: CompressionAlgorithm;
+  private serviceName: string;
+  private retry: Required<RetryConfig>;
+  private timeoutMillis: number;
+  private isShutdown = false;
+  private warnedNoEndpoint = false;
+
+  /**
+   * Create a new OTLP/HTTP exporter
+   * @param config Endpoint, headers, encoding, compression, retry and timeout settings
+   */
+  constructor(config: OtlpHttpExporterConfig) {
+    this.endpoint = config.endpoint;
+    this.tracesEndpoint = config.tracesEndpoint ?? deriveTracesEndpoint(config.endpoint);
+    this.protocol = config.protocol ?? 'http/json';
+    this.compression = config.compression ?? 'none';
+    this.headers = buildExportHeaders(this.protocol, config.headers ?? {});
+    this.serviceName = config.serviceName ?? 'otel-http-logger';
+    this.retry = { ...DEFAULT_RETRY_CONFIG, ...config.retry };
+    this.timeoutMillis = config.timeoutMillis ?? DEFAULT_EXPORT_TIMEOUT_MILLIS;
+  }
+
+  /**
+   * The logs and traces endpoints this exporter sends to
+   */
+  get endpoints(): string[] {
+    return [this.endpoint, this.tracesEndpoint].filter(Boolean);
+  }
+
+  /**
+   * Send a batch of logs to the OTLP logs endpoint
+   * @param batch The OTLP logs request to send
+   * @param options Optional export options
+   * @returns The export result
+   */
+  async export(batch: ExportLogsServiceRequest, options: ExportOptions = {}): Promise<ExportResult> {
+    if (this.isShutdown) {
+      return shutdownResult();
+    }
+
+    const encode = (request: ExportLogsServiceRequest) => this.protocol === 'http/protobuf'
+      ? encodeExportLogsServiceRequest(request)
+      : JSON.stringify(request);
+
+    if (options.unloading) {
+      return this.sendOnUnload(this.endpoint, batch, encode, countLogRecords, splitLogsRequest, 'log');
+    }
+    return this.send(this.endpoint, encode(batch), countLogRecords(batch), 'log');
+  }
+
+  /**
+   * Send a batch of spans to the OTLP traces endpoint
+   * @param batch The OTLP trace request to send
+   * @param options Optional export options
+   * @returns The export result
+   */
+  async exportSpans(batch: ExportTraceServiceRequest, options: ExportOptions = {}): Promise<ExportResult> {
+    if (this.isShutdown) {
+      return shutdownResult();
+    }
+
+    const encode = (request: ExportTraceServiceRequest) => this.protocol === 'http/protobuf'
+      ? encodeExportTraceServiceRequest(request)
+      : JSON.stringify(request);
+
+    if (options.unloading) {
+      return this.sendOnUnload(this.tracesEndpoint, batch, encode, countSpans, splitTraceRequest, 'span');
+    }
+    return this.send(this.tracesEndpoint, encode(batch), countSpans(batch), 'span');
+  }
+
+  /**
+   * Stop exporting; later exports fail
+   */
+  async shutdown(): Promise<void> {
+    this.isShutdown = true;
+  }
+
+  /**
+   * Send a request while the page unloads, splitting it to stay within the beacon size limit
+   * Runs synchronously and without compression, since the page may be gone before
+   * any asynchronous work completes.
+   * @param endpoint Endpoint to send the request to
+   * @param request The OTLP request
+   * @param encode Encodes a request body
+   * @param count Counts the records in a request
+   * @param split Splits a request into two halves
+   * @param signal Record type used in diagnostics ('log' or 'span')
+   * @returns The export result
+   */
+  private sendOnUnload<R>(
+    endpoint: string,
+    request: R,
+    encode: (request: R) => string | Uint8Array,
+    count: (request: R) => number,
+    split: (request: R) => R[],
+    signal: string
+  ): ExportResult {
+    if (!endpoint) {
+      return SUCCESS;
+    }
+
+    const body = encode(request);
+    const size = typeof body === 'string' ? new TextEncoder().encode(body).length : body.length;
+
+    if (size > BEACON_SIZE_LIMIT) {
+      if (count(request) <= 1) {
+        console.warn(`[${this.serviceName}] Dropping a ${signal} larger than the ${BEACON_SIZE_LIMIT} byte beacon limit`);
+        return { code: ExportResultCode.FAILED, error: new Error('Record exceeds the beacon size limit') };
+      }
+      const results = split(request).map(part => this.sendOnUnload(endpoint, part, encode, count, split, signal));
+      return results.find(result => result.code !== ExportResultCode.SUCCESS) ?? SUCCESS;
+    }
+
+    return this.beacon(endpoint, body)
+      ? SUCCESS
+      : { code: ExportResultCode.FAILED, error: new Error('Beacon was not queued') };
+  }
+
+  /**
+   * Send a body with navigator.sendBeacon or fetch keepalive
+   * sendBeacon cannot set headers, so it is only used when no headers other
+   * than Content-Type are configured.
+   * @returns True if the request was queued
+   */
+  private beacon(endpoint: string, body: string | Uint8Array): boolean {
+    const needsHeaders = Object.keys(this.headers).some(key => key.toLowerCase() !== 'content-type');
+
+    if (!needsHeaders && typeof navigator !== 'undefined' && typeof navigator.sendBeacon === 'function') {
+      try {
+        if (navigator.sendBeacon(endpoint, new Blob([body], { type: this.headers['Content-Type'] }))) {
+          return true;
+        }
+      } catch {
+        // Some browsers reject non-CORS-safelisted content types; fall back to fetch
+      }
+    }
+
+    if (typeof fetch === 'function') {
+      fetch(endpoint, { method: 'POST', headers: this.headers, body, keepalive: true }).catch(() => {});
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Apply the configured compression to a request body
+   * Sends the body uncompressed if compression is unavailable or fails
+   * @param body The encoded OTLP request body
+   * @returns The body to send and the headers to send it with
+   */
+  private async compress(body: string | Uint8Array): Promise<{ body: string | Uint8Array; headers: Record<string, string> }> {
+    if (this.compression === 'gzip') {
+      try {
+        const compressed = await gzip(body);
+        if (compressed) {
+          return { body: compressed, headers: { ...this.headers, 'Content-Encoding': 'gzip' } };
+        }
+      } catch (error) {
+        console.warn(`[${this.serviceName}] Failed to compress payload, sending uncompressed:`, error);
+      }
+    }
+
+    return { body, headers: this.headers };
+  }
+
+  /**
+   * Send an OTLP payload, retrying network errors and retryable statuses
+   * Other failed responses drop the batch, since resending it cannot succeed.
+   * @param endpoint Endpoint to send the payload to
+   * @param body The encoded OTLP request body
+   * @param count Number of records in the payload
+   * @param signal Record type used in diagnostics ('log' or 'span')
+   * @returns The export result
+   */
+  private async send(endpoint: string, body: string | Uint8Array, count: number, signal: string): Promise<ExportResult> {
+    // Skip actual sending if no endpoint is configured, saying so once on stderr so stdout stays clean
+    if (!endpoint) {
+      if (!this.warnedNoEndpoint) {
+        this.warnedNoEndpoint = true;
+        console.warn(`[${this.serviceName}] No OTLP endpoint configured, skipping ${signal} transmission`);
+      }
+      return SUCCESS;
+    }
+
+    const request = await this.compress(body);
+    const startTime = Date.now();
+    let retries = 0;
+
+    for (;;) {
+      let error: Error;
+      let retryAfter: number | undefined;
+
+      try {
+        // Send records to OTLP endpoint, reading the body of successful responses within the same timeout
+        const { response, rejectedCount } = await this.fetchWithTimeout(endpoint, {
+          method: 'POST',
+          headers: request.headers,
+          body: request.body,
+        }, async (response, abortSignal) => ({
+          response,
+          rejectedCount: response.ok ? await this.readPartialSuccess(response, count, signal, abortSignal) : 0,
+        }));
+
+        if (response.ok) {
+          return rejectedCount > 0 ? { ...SUCCESS, rejectedCount } : SUCCESS;
+        }
+
+        error = new Error(`HTTP error ${response.status}: ${response.statusText}`);
+        if (!isRetryableStatus(response.status)) {
+          console.error(`[${this.serviceName}] Dropping ${count} ${signal}s rejected by the OTLP endpoint:`, error);
+          return { code: ExportResultCode.FAILED, error, retryable: false };
+        }
+        retryAfter = parseRetryAfter(response.headers?.get('retry-after'));
+      } catch (fetchError: any) {
+        // Network errors are always worth retrying
+        error = fetchError instanceof Error ? fetchError : new Error(String(fetchError));
+      }
+
+      retries++;
+      const delay = retryAfter ?? computeBackoff(retries, this.retry);
+      const elapsed = Date.now() - startTime;
+
+      if (retries > this.retry.maxRetries || elapsed + delay > this.retry.maxRetryTimeMillis) {
+        console.error(`[${this.serviceName}] Failed to send ${signal}s after ${retries - 1} retries:`, error);
+        return { code: ExportResultCode.FAILED, error };
+      }
+
+      console.warn(`[${this.serviceName}] Error sending ${signal}s (retry ${retries}/${this.retry.maxRetries} in ${delay}ms):`, error);
+      await new Promise(resolve => setTimeout(resolve, delay));
+    }
+  }
+
+  /**
+   * Send a request and handle its response, aborting both once the export timeout expires
+   * The timeout stays armed while the response is handled, so a collector that
+   * stalls after sending headers cannot hang the export.
+   * @param endpoint Endpoint to send the request to
+   * @param init Request options
+   * @param handle Reads the response; receives the signal aborted on timeout
+   * @returns The result of handle
+   */
+  private async fetchWithTimeout<T>(
+    endpoint: string,
+    init: RequestInit,
+    handle: (response: Response, abortSignal?: AbortSignal) => Promise<T>
+  ): Promise<T> {
+    if (typeof AbortController === 'undefined') {
+      return handle(await fetch(endpoint, init));
+    }
+
+    const controller = new AbortController();
+    const timer = setTimeout(() => controller.abort(), this.timeoutMillis);
+
+    try {
+      let response: Response;
+      try {
+        response = await fetch(endpoint, { ...init, signal: controller.signal });
+      } catch (error) {
+        if (controller.signal.aborted) {
+          throw new Error(`Request timed out after ${this.timeoutMillis}ms`);
+        }
+        throw error;
+      }
+      return await handle(response, controller.signal);
+    } finally {
+      clearTimeout(timer);
+    }
+  }
+
+  /**
+   * Read and report an OTLP partial success from a successful response
+   * @param response The export response
+   * @param count Number of records in the request
+   * @param signal Record type used in diagnostics ('log' or 'span')
+   * @param abortSignal Signal aborted when the export times out, ending the read
+   * @returns The number of records the endpoint rejected
+   */
+  private async readPartialSuccess(response: Response, count: number, signal: string, abortSignal?: AbortSignal): Promise<number> {
+    let partialSuccess: { rejected: number; errorMessage?: string };
+
+    try {
+      if (this.protocol === 'http/protobuf') {
+        if (typeof response.arrayBuffer !== 'function') {
+          return 0;
+        }
+        partialSuccess = decodeExportPartialSuccess(new Uint8Array(await untilAborted(response.arrayBuffer(), abortSignal)));
+      } else {
+        if (typeof response.text !== 'function') {
+          return 0;
+        }
+        const text = await untilAborted(response.text(), abortSignal);
+        const json = text ? JSON.parse(text)?.partialSuccess : undefined;
+        partialSuccess = {
+          rejected: Number(json?.[signal === 'span' ? 'rejectedSpans' : 'rejectedLogRecords'] ?? 0) || 0,
+          errorMessage: json?.errorMessage || undefined,
+        };
+      }
+    } catch {
+      // Responses without a readable body, or whose body timed out, are full successes
+      return 0;
+    }
+
+    if (partialSuccess.rejected > 0 || partialSuccess.errorMessage) {
+      const details = partialSuccess.errorMessage ? `: ${partialSuccess.errorMessage}` : '';
+      console.warn(`[${this.serviceName}] OTLP endpoint rejected ${partialSuccess.rejected} of ${count} ${signal}s${details}`);
+    }
+    return partialSuccess.rejected;
+  }
+}
+
+/**
+ * Console Exporter
+ * Prints each log record as one JSON line, together with its resource and scope.
+ * Useful for local development and for log shippers reading stdout.
+ */
+export class ConsoleExporter implements LogExporter {
+  private isShutdown = false;
+
+  /**
+   * Print a batch of logs
+   * @param batch The OTLP logs request to print
+   * @returns The export result
+   */
+  async export(batch: ExportLogsServiceRequest): Promise<ExportResult> {
+    if (this.isShutdown) {
+      return shutdownResult();
+    }
+
+    for (const { resource, scopeLogs } of batch.resourceLogs) {
+      for (const { scope, logRecords } of scopeLogs) {
+        for (const record of logRecords) {
+          console.log(JSON.stringify({ resource, scope, ...record }));
+        }
+      }
+    }
+    return SUCCESS;
+  }
+
+  /**
+   * Stop printing; later exports fail
+   */
+  async shutdown(): Promise<void> {
+    this.isShutdown = true;
+  }
+}
+
+/**
+ * In-Memory Exporter
+ * Keeps exported batches in memory so tests can assert on emitted records
+ * without mocking fetch.
+ */
+export class InMemoryExporter implements LogExporter {
+  private logBatches: ExportLogsServiceRequest[] = [];
+  private spanBatches: ExportTraceServiceRequest[] = [];
+  private isShutdown = false;
+
+  /**
+   * Store a batch of logs
+   * @param batch The OTLP logs request
+   * @returns The export result
+   */
+  async export(batch: ExportLogsServiceRequest): Promise<ExportResult> {
+    if (this.isShutdown) {
+      return shutdownResult();
+    }
+    this.logBatches.push(batch);
+    return SUCCESS;
+  }
+
+  /**
+   * Store a batch of spans
+   * @param batch The OTLP trace request
+   * @returns The export result
+   */
+  async exportSpans(batch: ExportTraceServiceRequest): Promise<ExportResult> {
+    if (this.isShutdown) {
+      return shutdownResult();
+    }
+    this.spanBatches.push(batch);
+    return SUCCESS;
+  }
+
+  /**
+   * Get the exported log batches, as OTLP requests
+   */
+  getExportedBatches(): ExportLogsServiceRequest[] {
+    return [...this.logBatches];
+  }
+
+  /**
+   * Get every exported log record, in export order
+   */
+  getFinishedLogRecords(): LogRecord[] {
+    return this.logBatches.flatMap(batch =>
+      batch.resourceLogs.flatMap(resourceLogs => resourceLogs.scopeLogs.flatMap(scopeLogs => scopeLogs.logRecords))
+    );
+  }
+
+  /**
+   * Get every exported span, in export order
+   */
+  getFinishedSpans(): SpanRecord[] {
+    return this.spanBatches.flatMap(batch =>
+      batch.resourceSpans.flatMap(resourceSpans => resourceSpans.scopeSpans.flatMap(scopeSpans => scopeSpans.spans))
+    );
+  }
+
+  /**
+   * Clear all stored records
+   */
+  reset(): void {
+    this.logBatches = [];
+    this.spanBatches = [];
+  }
+
+  /**
+   * Stop storing records; later exports fail. Stored records are kept.
+   */
+  async shutdown(): Promise<void> {
+    this.isShutdown = true;
+  }
+}
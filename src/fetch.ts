@@ -0,0 +1,136 @@
+/**
+ * Instrumented Fetch
+ *
+ * Wraps fetch to log outbound HTTP calls made inside a logger context, using
+ * the HTTP client semantic-convention attributes, and to propagate the
+ * active trace to the called service with a traceparent header.
+ */
+
+import { findCurrentLogger, getTraceHeaders } from './logger';
+import { FetchFunction, InstrumentedFetchOptions } from './types';
+
+/**
+ * Default context of the logger for outbound requests
+ */
+const DEFAULT_CONTEXT = 'fetch';
+
+/**
+ * Replacement for redacted URL components, as in the semantic conventions
+ */
+const REDACTED = 'REDACTED';
+
+/**
+ * Check whether a fetch input is a Request
+ */
+function isRequest(input: RequestInfo | URL): input is Request {
+  return typeof input === 'object' && !(input instanceof URL) && 'url' in input;
+}
+
+/**
+ * Redact credentials and query values in a URL
+ * @returns The redacted URL, and its host and explicit port if it could be parsed
+ */
+function redactUrl(url: string, allowedQueryParams: Set<string>): { full: string; address?: string; port?: number } {
+  let parsed: URL;
+  try {
+    parsed = new URL(url, (globalThis as any).location?.href);
+  } catch {
+    return { full: url.split('?')[0] };
+  }
+
+  if (parsed.username || parsed.password) {
+    parsed.username = REDACTED;
+    parsed.password = REDACTED;
+  }
+  const params = new URLSearchParams();
+  parsed.searchParams.forEach((value, key) => {
+    params.append(key, allowedQueryParams.has(key) ? value : REDACTED);
+  });
+  parsed.search = params.toString();
+
+  return {
+    full: parsed.href,
+    address: parsed.hostname,
+    port: parsed.port ? Number(parsed.port) : undefined,
+  };
+}
+
+/**
+ * Add the active trace context headers, keeping any the caller already set
+ */
+function withTraceHeaders(input: RequestInfo | URL, init?: RequestInit): RequestInit | undefined {
+  const traceHeaders = getTraceHeaders();
+  if (Object.keys(traceHeaders).length === 0) {
+    return init;
+  }
+
+  const headers = new Headers(init?.headers ?? (isRequest(input) ? input.headers : undefined));
+  for (const [name, value] of Object.entries(traceHeaders)) {
+    if (!headers.has(name)) {
+      headers.set(name, value);
+    }
+  }
+  return { ...init, headers };
+}
+
+/**
+ * Create a fetch function that logs outbound calls
+ * Calls made inside a logger context are logged with their method, redacted URL,
+ * status and duration, at warn level for 4xx and error level for 5xx statuses or
+ * network errors. Calls outside a logger context, and the exporter's own requests
+ * to its OTLP endpoints, are passed through unchanged.
+ * @param fetchImpl The fetch implementation to wrap (default: globalThis.fetch)
+ * @param options Logger context, allowed query parameters and trace propagation
+ * @returns A fetch function with the same signature
+ */
+export function createInstrumentedFetch(fetchImpl?: FetchFunction, options: InstrumentedFetchOptions = {}): FetchFunction {
+  const baseFetch = fetchImpl ?? globalThis.fetch.bind(globalThis);
+  const allowedQueryParams = new Set(options.allowedQueryParams ?? []);
+
+  return async (input, init) => {
+    const logger = findCurrentLogger();
+    const url = isRequest(input) ? input.url : String(input);
+    if (!logger || logger.isExportEndpoint(url)) {
+      return baseFetch(input, init);
+    }
+
+    const requestLogger = logger.newContext(options.context ?? DEFAULT_CONTEXT);
+    const method = (init?.method ?? (isRequest(input) ? input.method : 'GET')).toUpperCase();
+    const target = redactUrl(url, allowedQueryParams);
+    const attributes: Record<string, any> = {
+      'http.request.method': method,
+      'url.full': target.full,
+    };
+    if (target.address) {
+      attributes['server.address'] = target.address;
+    }
+    if (target.port !== undefined) {
+      attributes['server.port'] = target.port;
+    }
+    const startTime = Date.now();
+    const elapsed = () => {
+      const millis = Date.now() - startTime;
+      attributes['http.client.request.duration'] = millis / 1000;
+      return millis;
+    };
+
+    let response: Response;
+    try {
+      response = await baseFetch(input, options.propagateTraceContext === false ? init : withTraceHeaders(input, init));
+    } catch (error) {
+      requestLogger.error(`${method} ${target.full} failed after ${elapsed()}ms`, error, attributes);
+      throw error;
+    }
+
+    const message = `${method} ${target.full} ${response.status} in ${elapsed()}ms`;
+    attributes['http.response.status_code'] = response.status;
+    if (response.status >= 500) {
+      requestLogger.error(message, undefined, attributes);
+    } else if (response.status >= 400) {
+      requestLogger.warn(message, attributes);
+    } else {
+      requestLogger.info(message, attributes);
+    }
+    return response;
+  };
+}
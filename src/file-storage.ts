@@ -0,0 +1,132 @@
+/**
+ * File Buffer Storage
+ *
+ * Offline buffer storage in newline-delimited files for Node.js and Bun.
+ * Only loaded by the Node.js entry point, which registers it as the storage
+ * for offline buffers configured with a path.
+ */
+
+import * as fs from 'fs/promises';
+import { dirname } from 'path';
+import { BufferStorage } from './types';
+import {
+  DEFAULT_OFFLINE_BUFFER_MAX_BYTES,
+  DEFAULT_OFFLINE_BUFFER_MAX_FILES,
+  byteLength,
+  splitEntries
+} from './offline';
+
+/**
+ * Check whether an error is a missing-file error
+ */
+function isNotFound(error: any): boolean {
+  return error?.code === 'ENOENT';
+}
+
+/**
+ * Buffer storage in newline-delimited files (Node.js, Bun)
+ * Entries are appended to the active file; once it reaches its share of
+ * maxBytes it is rotated to `<path>.1`, `<path>.2`, ... and the oldest file
+ * is deleted.
+ */
+export class FileBufferStorage implements BufferStorage {
+  private path: string;
+  private maxFileBytes: number;
+  private maxFiles: number;
+
+  /**
+   * Create a new file buffer storage
+   * @param path Path of the active buffer file
+   * @param maxBytes Maximum total size of all files in bytes
+   * @param maxFiles Number of files to rotate through
+   */
+  constructor(path: string, maxBytes: number = DEFAULT_OFFLINE_BUFFER_MAX_BYTES, maxFiles: number = DEFAULT_OFFLINE_BUFFER_MAX_FILES) {
+    this.path = path;
+    this.maxFiles = Math.max(1, maxFiles);
+    this.maxFileBytes = Math.max(1, Math.floor(maxBytes / this.maxFiles));
+  }
+
+  /**
+   * Append an entry, rotating the active file when it is full
+   * @param entry The entry to append
+   */
+  async append(entry: string): Promise<void> {
+    const line = `${entry}\n`;
+
+    await fs.mkdir(dirname(this.path), { recursive: true });
+    const size = await fs.stat(this.path).then(stats => stats.size, () => 0);
+    if (size > 0 && size + byteLength(line) > this.maxFileBytes) {
+      await this.rotate();
+    }
+
+    await fs.appendFile(this.path, line, 'utf8');
+  }
+
+  /**
+   * Read every entry, oldest file first
+   * A line cut short by a crash only affects that line.
+   */
+  async load(): Promise<string[]> {
+    const entries: string[] = [];
+
+    for (const file of this.files().reverse()) {
+      try {
+        entries.push(...splitEntries(await fs.readFile(file, 'utf8')));
+      } catch (error) {
+        if (!isNotFound(error)) {
+          throw error;
+        }
+      }
+    }
+    return entries;
+  }
+
+  /**
+   * Replace every file with a single file holding the given entries
+   * The new file is written next to the active one and renamed over it
+   * before the rotated files are deleted, so a crash or failed write
+   * (e.g. a full disk) never loses entries that are still stored.
+   * @param entries The entries to keep
+   */
+  async replace(entries: string[]): Promise<void> {
+    if (entries.length === 0) {
+      await fs.rm(this.path, { force: true });
+    } else {
+      await fs.mkdir(dirname(this.path), { recursive: true });
+      const temporary = `${this.path}.tmp`;
+      await fs.writeFile(temporary, entries.map(entry => `${entry}\n`).join(''), 'utf8');
+      await fs.rename(temporary, this.path);
+    }
+    await this.removeRotated();
+  }
+
+  /**
+   * Paths of the buffer files, newest first
+   */
+  private files(): string[] {
+    return Array.from({ length: this.maxFiles }, (_, i) => (i === 0 ? this.path : `${this.path}.${i}`));
+  }
+
+  /**
+   * Shift every file one position older, deleting the oldest
+   */
+  private async rotate(): Promise<void> {
+    const files = this.files();
+
+    await fs.rm(files[files.length - 1], { force: true });
+    for (let i = files.length - 2; i >= 0; i--) {
+      await fs.rename(files[i], files[i + 1]).catch(error => {
+        if (!isNotFound(error)) {
+          throw error;
+        }
+      });
+    }
+  }
+
+  /**
+   * Delete every rotated file
+   */
+  private async removeRotated(): Promise<void> {
+    await Promise.all(this.files().slice(1).map(file => fs.rm(file, { force: true })));
+  }
+}
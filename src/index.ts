@@ -10,9 +10,62 @@ export {
   Logger,
   getCurrentLogger,
   createLogger,
-  initializeLogger
+  initializeLogger,
+  getTraceHeaders,
+  setContextAttributes,
+  getContextAttributes,
+  withContextAttributes,
+  setContextManager
 } from './logger';
 
+// Export async context management
+export {
+  StackContextManager,
+  createContextManager,
+  registerAsyncLocalStorage,
+  AsyncLocalStorageConstructor
+} from './context';
+
+// Export HTTP server middleware
+export {
+  createHttpMiddleware,
+  wrapHttpHandler,
+  wrapFetchHandler,
+  getRequestLogger
+} from './middleware';
+
+// Export instrumented fetch
+export {
+  createInstrumentedFetch
+} from './fetch';
+
+// Export W3C trace context propagation
+export {
+  parseTraceparent,
+  parseTracestate,
+  extractTraceContext,
+  formatTraceparent,
+  injectTraceContext
+} from './propagation';
+
+// Export environment configuration
+export {
+  getEnvConfig,
+  resolveConfig
+} from './env';
+
+// Export level filtering
+export {
+  LevelFilter,
+  parseLogLevel
+} from './levels';
+
+// Export console formatting
+export {
+  formatPretty,
+  formatJson
+} from './console';
+
 // Export OpenTelemetry backend
 export {
   OtelBackend,
@@ -20,10 +73,133 @@ export {
   generateSpanId
 } from './otel';
 
+// Export exporters
+export {
+  OtlpHttpExporter,
+  ConsoleExporter,
+  InMemoryExporter,
+  deriveTracesEndpoint
+} from './exporters';
+
+// Export offline buffering
+export {
+  LocalStorageBufferStorage,
+  IndexedDbBufferStorage,
+  BufferedBatch
+} from './offline';
+
+// Export redaction
+export {
+  Redactor,
+  DEFAULT_REDACTION_RULES,
+  DEFAULT_REDACTION_MASK
+} from './redaction';
+
+// Export error serialization
+export {
+  serializeError,
+  formatError,
+  DEFAULT_MAX_ERROR_DEPTH
+} from './errors';
+
+// Export hashing
+export {
+  sha256,
+  hmacSha256
+} from './hash';
+
+// Export resource detection
+export {
+  detectRuntime,
+  detectResource
+} from './resource';
+
+// Export spans
+export {
+  Span,
+  SpanEvent
+} from './span';
+
+// Export attribute encoding
+export {
+  toAnyValue,
+  toKeyValueList
+} from './attributes';
+
+// Export batching
+export {
+  BatchProcessor
+} from './batch';
+
+// Export protobuf encoding
+export {
+  encodeExportLogsServiceRequest,
+  encodeExportTraceServiceRequest,
+  decodeExportPartialSuccess
+} from './protobuf';
+
+// Export retry policy
+export {
+  DEFAULT_RETRY_CONFIG,
+  isRetryableStatus,
+  computeBackoff,
+  parseRetryAfter
+} from './retry';
+
+// Export compression
+export {
+  gzip
+} from './compression';
+
 // Export types
 export {
   LogLevel,
+  LogLevelName,
+  LevelSetting,
+  ConsoleMode,
+  ConsoleEntry,
+  ConsoleFormatter,
+  ConsoleOutput,
   LoggerConfig,
   OtelConfig,
-  ContextLogger
+  OtlpProtocol,
+  CompressionAlgorithm,
+  BatchConfig,
+  DropPolicy,
+  RetryConfig,
+  OfflineBufferConfig,
+  RedactionConfig,
+  RedactionRule,
+  RedactionAction,
+  RedactionPattern,
+  LogProcessor,
+  LogProcessorContext,
+  ProcessedLogRecord,
+  BufferStorage,
+  ContextLogger,
+  ContextManager,
+  LogRecord,
+  SpanRecord,
+  Resource,
+  InstrumentationScope,
+  ExportLogsServiceRequest,
+  ExportTraceServiceRequest,
+  SpanContext,
+  TraceContext,
+  TraceContextHeaders,
+  RequestOptions,
+  HttpMiddlewareOptions,
+  InstrumentedFetchOptions,
+  FetchFunction,
+  NodeHttpRequest,
+  NodeHttpResponse,
+  SpanStatusCode,
+  ExportResultCode,
+  ExportResult,
+  ExportOptions,
+  LogExporter,
+  ResourceDetector,
+  OtlpHttpExporterConfig,
+  AnyValue,
+  KeyValue
 } from './types';
@@ -0,0 +1,123 @@
+/**
+ * Log Level Filtering
+ *
+ * Resolves the minimum level for each logger context from a default level and
+ * per-context overrides keyed by newContext prefix, e.g.
+ * `{ 'handler:*': 'debug', 'middleware': 'warn' }`.
+ */
+
+import { mapLogLevelToSeverityNumber } from './otel';
+import { LogLevel, LevelSetting } from './types';
+
+/**
+ * Normalize a level setting or level name (case-insensitive)
+ * Accepts the OTEL_LOG_LEVEL aliases 'all' and 'verbose' for debug.
+ * @param value The level to normalize
+ * @returns The log level, or undefined if the value is not a known level
+ */
+export function parseLogLevel(value: string | undefined): LogLevel | undefined {
+  switch (value?.toLowerCase()) {
+    case 'all':
+    case 'verbose':
+    case 'debug':
+      return LogLevel.DEBUG;
+    case 'info':
+      return LogLevel.INFO;
+    case 'warn':
+      return LogLevel.WARN;
+    case 'error':
+      return LogLevel.ERROR;
+    default:
+      return undefined;
+  }
+}
+
+/**
+ * A compiled per-context override
+ */
+interface LevelOverride {
+  pattern: string;
+  regex: RegExp;
+  severity: number;
+}
+
+/**
+ * Convert a context pattern to a regular expression
+ * `*` matches any characters; a pattern also matches the contexts nested under it.
+ */
+function compilePattern(pattern: string): RegExp {
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}(:.*)?$`);
+}
+
+/**
+ * Level Filter
+ * Shared by a root logger and all of its context loggers so that level
+ * changes at runtime apply everywhere.
+ */
+export class LevelFilter {
+  private defaultSeverity: number;
+  private overrides: LevelOverride[] = [];
+  private cache = new Map<string, number>();
+
+  /**
+   * Create a new level filter
+   * @param level Default minimum level (default: LogLevel.DEBUG)
+   * @param levels Per-context overrides keyed by context pattern
+   */
+  constructor(level?: LevelSetting, levels: Record<string, LevelSetting> = {}) {
+    this.defaultSeverity = mapLogLevelToSeverityNumber(parseLogLevel(level) ?? LogLevel.DEBUG);
+    for (const [pattern, contextLevel] of Object.entries(levels)) {
+      this.setLevel(contextLevel, pattern);
+    }
+  }
+
+  /**
+   * Change the default level, or the level for a context pattern
+   * Unknown levels are ignored.
+   * @param level The new minimum level
+   * @param context Optional context pattern; omit to change the default level
+   */
+  setLevel(level: LevelSetting, context?: string): void {
+    const parsed = parseLogLevel(level);
+    if (!parsed) {
+      return;
+    }
+
+    const severity = mapLogLevelToSeverityNumber(parsed);
+    if (context === undefined) {
+      this.defaultSeverity = severity;
+    } else {
+      this.overrides = this.overrides.filter(override => override.pattern !== context);
+      this.overrides.push({ pattern: context, regex: compilePattern(context), severity });
+      // Longer patterns are more specific and take precedence
+      this.overrides.sort((a, b) => b.pattern.length - a.pattern.length);
+    }
+    this.cache.clear();
+  }
+
+  /**
+   * Check whether records at a level should be emitted in a context
+   * @param level The record's level
+   * @param context The logger's context prefix ('' for the root logger)
+   */
+  isEnabled(level: LogLevel, context: string): boolean {
+    return mapLogLevelToSeverityNumber(level) >= this.getSeverityThreshold(context);
+  }
+
+  /**
+   * Resolve the minimum severity number for a context
+   */
+  private getSeverityThreshold(context: string): number {
+    let threshold = this.cache.get(context);
+    if (threshold === undefined) {
+      const override = context ? this.overrides.find(o => o.regex.test(context)) : undefined;
+      threshold = override?.severity ?? this.defaultSeverity;
+      this.cache.set(context, threshold);
+    }
+    return threshold;
+  }
+}
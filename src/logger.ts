@@ -2,25 +2,93 @@
  * Simple Logger with Optional OpenTelemetry Support
  * 
  * A lightweight logger that can optionally send logs to an OTLP HTTP endpoint.
- * Supports async_hooks for automatic logger context propagation.
+ * Supports AsyncLocalStorage for automatic logger context propagation, with a
+ * synchronous fallback in runtimes without it.
  */
 
-import { AsyncLocalStorage } from 'async_hooks';
-import { OtelBackend } from './otel';
-import { LoggerConfig, ContextLogger, LogLevel } from './types';
+import { ContextStore } from './context';
+import { OtelBackend, generateTraceId, generateSpanId, createScope, DEFAULT_SHUTDOWN_TIMEOUT_MILLIS } from './otel';
+import { Span } from './span';
+import { extractTraceContext, injectTraceContext, TRACE_FLAG_SAMPLED } from './propagation';
+import { resolveConfig } from './env';
+import { LevelFilter } from './levels';
+import { writeConsole } from './console';
+import { registerShutdownHooks } from './shutdown';
+import { Redactor } from './redaction';
+import { ProcessorChain } from './processors';
+import { errorFields, toExceptionAttributes, DEFAULT_MAX_ERROR_DEPTH } from './errors';
+import {
+  LoggerConfig,
+  ContextLogger,
+  LogLevel,
+  LevelSetting,
+  ConsoleOutput,
+  InstrumentationScope,
+  SpanContext,
+  SpanStatusCode,
+  TraceContext,
+  TraceContextHeaders,
+  RequestOptions,
+  LogProcessor,
+  ProcessedLogRecord,
+  ContextManager
+} from './types';
 
-// Create AsyncLocalStorage to store the current logger instance
-const loggerStore = new AsyncLocalStorage<Logger>();
+/**
+ * State stored for each async context
+ */
+interface LoggerContext {
+  /** The current logger instance */
+  logger: Logger;
+  
+  /** The active span, if any */
+  span?: Span;
+  
+  /** Trace context received from an upstream service, if any */
+  traceContext?: TraceContext;
+  
+  /** Trace ID for records emitted outside any span, overriding the logger's own trace */
+  traceId?: string;
+  
+  /** Attributes added to every record emitted in this context */
+  attributes?: Record<string, any>;
+}
+
+/**
+ * Shutdown state shared by a root logger and its context loggers
+ */
+interface LoggerLifecycle {
+  /** Whether shutdown has started; records are rejected from then on */
+  isShutdown: boolean;
+  
+  /** Whether we've warned about records logged after shutdown */
+  hasWarnedShutdown: boolean;
+  
+  /** Maximum time shutdown waits for queued records to be exported */
+  shutdownTimeoutMillis: number;
+  
+  /** Removes the registered shutdown hooks, if any */
+  unregisterHooks?: () => void;
+}
+
+// Store the current logger instance and active span for each async context
+const loggerStore = new ContextStore<LoggerContext>();
+
+// Attribute carrying the context path of records emitted by context loggers
+const CONTEXT_ATTRIBUTE = 'logger.context';
 
 // Track if we've warned about missing logger context
 let hasWarnedNoContext = false;
 
+// Track if we've warned about context attributes set outside a logger context
+let hasWarnedNoAttributeContext = false;
+
 /**
  * Get the current logger from AsyncLocalStorage
  * @returns The current logger instance or a new console-only logger if not in a logger context
  */
 export function getCurrentLogger(): Logger {
-  const logger = loggerStore.getStore();
+  const logger = findCurrentLogger();
   if (!logger) {
     if (!hasWarnedNoContext) {
       console.warn('No logger found in current async context. Creating a console-only logger. OTEL logging is disabled.');
@@ -31,22 +99,121 @@ export function getCurrentLogger(): Logger {
   return logger;
 }
 
+/**
+ * Get the logger of the current async context, if any
+ * Unlike getCurrentLogger, no console-only logger is created outside a logger context.
+ */
+export function findCurrentLogger(): Logger | undefined {
+  return loggerStore.getStore()?.logger;
+}
+
 /**
  * Create a contextual logger using the current logger instance
  * @param context The context name to prepend to log messages
+ * @param attributes Optional attributes added to every record the logger emits
  * @returns A contextual logger that uses the current logger instance
  */
-export function createLogger(context: string): ContextLogger {
-  return getCurrentLogger().newContext(context);
+export function createLogger(context: string, attributes?: Record<string, any>): ContextLogger {
+  return getCurrentLogger().newContext(context, attributes);
+}
+
+/**
+ * Replace the context manager used to propagate the current logger
+ * By default AsyncLocalStorage is used when the runtime provides it, and a
+ * synchronous stack otherwise. Call this before any logger context is started,
+ * e.g. with `new AsyncLocalStorage()` from 'node:async_hooks' in Workers.
+ * @param manager The context manager to use
+ */
+export function setContextManager(manager: ContextManager<any>): void {
+  loggerStore.setManager(manager);
+}
+
+/**
+ * Add attributes to every record emitted in the current async context
+ * They apply to records from any logger used further down the call tree, such as
+ * those returned by createLogger, and override attributes already set with the same key.
+ * Scopes nested inside the context (withSpan, withContextAttributes) keep their own
+ * copy, so attributes set inside them do not leak back out.
+ * Outside a logger context (withLogger, withRequest) the attributes are ignored.
+ * @param attributes The attributes to add
+ */
+export function setContextAttributes(attributes: Record<string, any>): void {
+  const store = loggerStore.getStore();
+  if (!store) {
+    warnNoAttributeContext();
+    return;
+  }
+  store.attributes = { ...store.attributes, ...attributes };
+}
+
+/**
+ * Get the attributes set on the current async context
+ * @returns A copy of the attributes, empty outside a logger context
+ */
+export function getContextAttributes(): Record<string, any> {
+  return { ...loggerStore.getStore()?.attributes };
+}
+
+/**
+ * Execute a function in a nested scope with additional context attributes
+ * The attributes, and any set with setContextAttributes inside the function,
+ * only apply until the function completes.
+ * @param attributes Attributes added to every record emitted inside the function
+ * @param fn Function to execute within the nested scope
+ * @returns The result of the function
+ */
+export function withContextAttributes<T>(attributes: Record<string, any>, fn: () => T): T {
+  const store = loggerStore.getStore();
+  if (!store) {
+    warnNoAttributeContext();
+    return fn();
+  }
+  return loggerStore.run({ ...store, attributes: { ...store.attributes, ...attributes } }, fn);
+}
+
+/**
+ * Warn once about context attributes used outside a logger context
+ */
+function warnNoAttributeContext(): void {
+  if (!hasWarnedNoAttributeContext) {
+    console.warn('No logger found in current async context. Context attributes are ignored; use withLogger or withRequest first.');
+    hasWarnedNoAttributeContext = true;
+  }
+}
+
+/**
+ * Get traceparent/tracestate headers for the current async context
+ * Pass these on outgoing requests so downstream services join the same trace.
+ * @returns Header name/value pairs, or an empty object outside a logger context
+ */
+export function getTraceHeaders(): Record<string, string> {
+  const store = loggerStore.getStore();
+  if (!store) {
+    return {};
+  }
+  
+  const { span, traceContext, traceId, logger } = store;
+  const active = span
+    ?? traceContext
+    ?? (traceId ? { traceId, spanId: generateSpanId() } : logger.getRootSpanContext());
+  
+  return injectTraceContext({
+    traceId: active.traceId,
+    spanId: active.spanId,
+    traceFlags: traceContext?.traceFlags ?? TRACE_FLAG_SAMPLED,
+    traceState: traceContext?.traceState,
+  });
 }
 
 /**
  * Initialize the logger with configuration
- * @param config Logger configuration object
+ * Settings missing from the config are read from the standard OTEL_* environment
+ * variables (e.g. OTEL_EXPORTER_OTLP_ENDPOINT, OTEL_SERVICE_NAME); explicit settings win.
+ * @param config Optional logger configuration object
  * @returns The initialized logger
  */
-export function initializeLogger(config: LoggerConfig): Logger {
-  return new Logger(config);
+export function initializeLogger(config?: Partial<LoggerConfig>): Logger {
+  return new Logger(resolveConfig(config));
 }
 
 /**
@@ -58,6 +225,15 @@ export class Logger implements ContextLogger {
   private serviceName: string;
   private environment: string;
   private contextPrefix: string;
+  private boundAttributes?: Record<string, any>;
+  private levelFilter: LevelFilter;
+  private consoleOutput: ConsoleOutput;
+  private redactor?: Redactor;
+  private processors: ProcessorChain;
+  private errorOptions: { maxDepth: number; recordOnSpan: boolean };
+  private scope: InstrumentationScope;
+  private lifecycle: LoggerLifecycle;
+  private fallbackSpanContext: SpanContext = { traceId: generateTraceId(), spanId: generateSpanId() };
 
   /**
    * Create a new Logger
@@ -67,6 +243,25 @@ export class Logger implements ContextLogger {
    */
   constructor(config?: LoggerConfig, contextPrefix: string = '') {
     this.contextPrefix = contextPrefix;
+    this.levelFilter = new LevelFilter(config?.level, config?.levels);
+    this.consoleOutput = config?.console ?? 'simple';
+    this.processors = new ProcessorChain(config?.processors);
+    this.errorOptions = {
+      maxDepth: config?.maxErrorDepth ?? DEFAULT_MAX_ERROR_DEPTH,
+      recordOnSpan: config?.recordErrorsOnSpan ?? false,
+    };
+    if (config?.redaction) {
+      this.redactor = new Redactor(config.redaction === true ? {} : config.redaction);
+    }
+    
+    this.lifecycle = {
+      isShutdown: false,
+      hasWarnedShutdown: false,
+      shutdownTimeoutMillis: config?.shutdownTimeoutMillis ?? DEFAULT_SHUTDOWN_TIMEOUT_MILLIS,
+    };
+    
+    // Context loggers report their context prefix as instrumentation scope
+    this.scope = createScope(contextPrefix || config?.scopeName || config?.serviceName || 'console-logger', config?.scopeVersion);
     
     if (config) {
       // Configure OTLP logging
@@ -74,10 +269,19 @@ export class Logger implements ContextLogger {
       this.serviceName = config.serviceName;
       this.environment = config.environment;
       
-      // Log initialization only for root logger (no context prefix)
-      if (!contextPrefix) {
+      // Log initialization only for root logger (no context prefix), keeping JSON and silent output clean
+      if (!contextPrefix && (this.consoleOutput === 'simple' || this.consoleOutput === 'pretty')) {
         console.info(`[${this.serviceName}] Logger initialized (trace: ${this.otelBackend.getTraceId().substring(0, 8)}...)`);
       }
+      
+      // Flush on process exit or page unload when opted in
+      if (!contextPrefix && config.shutdownHooks) {
+        const otelBackend = this.otelBackend;
+        this.lifecycle.unregisterHooks = registerShutdownHooks({
+          shutdown: () => this.shutdown(),
+          flushOnUnload: () => otelBackend.flushOnUnload(),
+        });
+      }
     } else {
       // Console-only logging
       this.serviceName = 'console-logger';
@@ -92,13 +296,18 @@ export class Logger implements ContextLogger {
 
   /**
    * Execute a function with this logger set as the current logger in the async context
+   * Pass incoming traceparent/tracestate headers to continue an upstream trace;
+   * invalid headers are ignored and a new trace is used instead.
    * @param fn Function to execute within the logger context
+   * @param traceHeaders Optional incoming W3C trace context headers
    * @returns The result of the function
    */
-  async withLogger<T>(fn: () => T | Promise<T>): Promise<T> {
+  async withLogger<T>(fn: () => T | Promise<T>, traceHeaders?: TraceContextHeaders): Promise<T> {
+    const traceContext = traceHeaders ? extractTraceContext(traceHeaders) : undefined;
+    
     try {
       // Run the function in the logger context
-      const result = await Promise.resolve(loggerStore.run(this, fn));
+      const result = await Promise.resolve(loggerStore.run({ logger: this, traceContext }, fn));
       await this.flush();
       return result;
     } catch (error: any) {
@@ -109,6 +318,171 @@ export class Logger implements ContextLogger {
     }
   }
 
+  /**
+   * Execute a function in a request-scoped child context
+   * The context gets its own trace ID (or continues an incoming one) and attributes
+   * that are added to every record emitted inside it, while still sharing this
+   * logger's backend, queue and connection.
+   * @param fn Function to execute within the request context
+   * @param attributes Optional attributes added to every record in the request
+   * @param options Optional incoming trace headers and whether to flush the request's records at the end
+   * @returns The result of the function
+   */
+  async withRequest<T>(
+    fn: () => T | Promise<T>,
+    attributes?: Record<string, any>,
+    options: RequestOptions = {}
+  ): Promise<T> {
+    const traceContext = extractTraceContext(options);
+    const traceId = traceContext?.traceId ?? generateTraceId();
+    const parentAttributes = loggerStore.getStore()?.attributes;
+    
+    try {
+      return await Promise.resolve(loggerStore.run({
+        logger: this,
+        traceContext,
+        traceId,
+        attributes: parentAttributes || attributes ? { ...parentAttributes, ...attributes } : undefined,
+      }, fn));
+    } finally {
+      if (options.flush === true || (options.flush === 'auto' && this.otelBackend?.exportsOnSchedule === false)) {
+        await this.otelBackend?.flushTrace(traceId);
+      }
+    }
+  }
+
+  /**
+   * Start a new span as a child of the active span
+   * The span is not made active; use withSpan to run code inside a span
+   * @param name Span name
+   * @param attributes Optional span attributes
+   * @returns The started span, which must be ended by the caller
+   */
+  startSpan(name: string, attributes?: Record<string, any>): Span {
+    const store = loggerStore.getStore();
+    const parent = store?.span ?? store?.traceContext;
+    
+    return new Span(
+      name,
+      {
+        traceId: parent?.traceId ?? store?.traceId ?? this.getRootSpanContext().traceId,
+        parentSpanId: parent?.spanId,
+        attributes,
+      },
+      span => this.otelBackend?.recordSpan(span, this.scope)
+    );
+  }
+
+  /**
+   * Execute a function inside a new span
+   * Logs emitted inside the function are tagged with the span's trace and span IDs.
+   * The span is ended when the function completes and marked as an error if it throws.
+   * @param name Span name
+   * @param fn Function to execute within the span
+   * @param attributes Optional span attributes
+   * @returns The result of the function
+   */
+  async withSpan<T>(
+    name: string,
+    fn: (span: Span) => T | Promise<T>,
+    attributes?: Record<string, any>
+  ): Promise<T> {
+    const span = this.startSpan(name, attributes);
+    const store = loggerStore.getStore();
+    const logger = store?.logger ?? this;
+    
+    try {
+      return await Promise.resolve(loggerStore.run({ ...store, logger, span }, () => fn(span)));
+    } catch (error: any) {
+      // Same redacted attributes and depth as errors logged with recordErrorsOnSpan
+      const exception = this.exceptionAttributes(error);
+      span.addEvent('exception', exception);
+      span.setStatus(SpanStatusCode.ERROR, exception['exception.message']);
+      throw error;
+    } finally {
+      span.end();
+    }
+  }
+
+  /**
+   * Get the trace and span IDs of the root span used outside any other span
+   */
+  getRootSpanContext(): SpanContext {
+    return this.otelBackend
+      ? { traceId: this.otelBackend.getTraceId(), spanId: this.otelBackend.getSpanId() }
+      : this.fallbackSpanContext;
+  }
+
+  /**
+   * Get the trace and span IDs of the active span or upstream trace context, if any
+   * Request contexts without a span only provide a trace ID.
+   */
+  private getActiveSpanContext(): Partial<SpanContext> | undefined {
+    const store = loggerStore.getStore();
+    const active = store?.span ?? store?.traceContext;
+    if (active) {
+      return { traceId: active.traceId, spanId: active.spanId };
+    }
+    return store?.traceId ? { traceId: store.traceId } : undefined;
+  }
+
+  /**
+   * Check whether a URL is one of the endpoints this logger exports to
+   * Used to keep instrumented fetch from logging the exporter's own requests.
+   * @param url The URL to check
+   */
+  isExportEndpoint(url: string): boolean {
+    return this.otelBackend?.isExportEndpoint(url) ?? false;
+  }
+
+  /**
+   * Merge the current context's attributes, this logger's bound attributes and per-call attributes
+   * Per-call attributes take precedence, then bound attributes.
+   */
+  private mergeAttributes(attributes?: Record<string, any>): Record<string, any> | undefined {
+    const contextAttributes = loggerStore.getStore()?.attributes;
+    if (!contextAttributes && !this.boundAttributes) {
+      return attributes;
+    }
+    return { ...contextAttributes, ...this.boundAttributes, ...attributes };
+  }
+
+
+  /**
+   * Check whether records at a level are emitted by this logger's context
+   * Use this to skip building expensive attributes for disabled levels.
+   * Always false once the logger has been shut down.
+   * @param level The level to check
+   */
+  isLevelEnabled(level: LogLevel): boolean {
+    return !this.lifecycle.isShutdown && this.levelFilter.isEnabled(level, this.contextPrefix);
+  }
+
+  /**
+   * Check whether a record should be emitted, warning once about records logged after shutdown
+   */
+  private shouldEmit(level: LogLevel): boolean {
+    if (this.lifecycle.isShutdown) {
+      if (!this.lifecycle.hasWarnedShutdown) {
+        console.warn(`[${this.serviceName}] Logger has been shut down; further log records are dropped`);
+        this.lifecycle.hasWarnedShutdown = true;
+      }
+      return false;
+    }
+    return this.levelFilter.isEnabled(level, this.contextPrefix);
+  }
+
+  /**
+   * Change the minimum level at runtime
+   * The change applies to this logger and every logger sharing its configuration
+   * (the root logger and all loggers created with newContext).
+   * @param level The new minimum level
+   * @param context Optional context pattern (e.g. 'handler:*'); omit to change the default level
+   */
+  setLevel(level: LevelSetting, context?: string): void {
+    this.levelFilter.setLevel(level, context);
+  }
+
   /**
    * Format message with context prefix
    */
@@ -116,15 +490,36 @@ export class Logger implements ContextLogger {
     return this.contextPrefix ? `[${this.contextPrefix}] ${message}` : message;
   }
 
+  /**
+   * Write a record to the console in the configured output mode
+   */
+  private writeConsole(level: LogLevel, message: string, attributes?: Record<string, any>, exception?: Record<string, any>): void {
+    if (this.consoleOutput === 'off') {
+      return;
+    }
+    
+    const spanContext = this.getActiveSpanContext();
+    writeConsole(this.consoleOutput, {
+      timestamp: new Date(),
+      level,
+      message,
+      context: this.contextPrefix,
+      serviceName: this.serviceName,
+      environment: this.environment,
+      attributes,
+      exception,
+      traceId: spanContext?.traceId ?? this.getRootSpanContext().traceId,
+      spanId: spanContext?.spanId,
+    });
+  }
+
   /**
    * Log debug message
    * @param message The message to log
    * @param attributes Optional attributes to include with the log
    */
   debug(message: string, attributes?: Record<string, any>): void {
-    const formattedMessage = this.formatMessage(message);
-    this.otelBackend?.createLogRecord(LogLevel.DEBUG, formattedMessage, attributes);
-    console.debug(`[${this.serviceName}] [DEBUG] ${formattedMessage}`, attributes || '');
+    this.emit(LogLevel.DEBUG, message, attributes);
   }
 
   /**
@@ -133,9 +528,7 @@ export class Logger implements ContextLogger {
    * @param attributes Optional attributes to include with the log
    */
   info(message: string, attributes?: Record<string, any>): void {
-    const formattedMessage = this.formatMessage(message);
-    this.otelBackend?.createLogRecord(LogLevel.INFO, formattedMessage, attributes);
-    console.info(`[${this.serviceName}] [INFO] ${formattedMessage}`, attributes || '');
+    this.emit(LogLevel.INFO, message, attributes);
   }
 
   /**
@@ -144,56 +537,145 @@ export class Logger implements ContextLogger {
    * @param attributes Optional attributes to include with the log
    */
   warn(message: string, attributes?: Record<string, any>): void {
-    const formattedMessage = this.formatMessage(message);
-    this.otelBackend?.createLogRecord(LogLevel.WARN, formattedMessage, attributes);
-    console.warn(`[${this.serviceName}] [WARN] ${formattedMessage}`, attributes || '');
+    this.emit(LogLevel.WARN, message, attributes);
   }
 
   /**
    * Log error message
    * @param message The message to log
-   * @param error Optional error object to include with the log
+   * @param error Optional error (or other thrown value) to include with the log
    * @param attributes Optional attributes to include with the log
    */
-  error(message: string, error?: Error, attributes?: Record<string, any>): void {
-    const formattedMessage = this.formatMessage(message);
-    const errorAttributes = { ...attributes };
+  error(message: string, error?: unknown, attributes?: Record<string, any>): void {
+    this.emit(LogLevel.ERROR, message, attributes, error);
+  }
+
+  /**
+   * Run a record through the processors and redaction, then queue and print it
+   */
+  private emit(level: LogLevel, message: string, attributes?: Record<string, any>, error?: unknown): void {
+    if (!this.shouldEmit(level)) {
+      return;
+    }
+    
+    const spanContext = this.getActiveSpanContext();
+    let record: ProcessedLogRecord | undefined = {
+      level,
+      message,
+      attributes: { ...this.mergeAttributes(attributes) },
+      error,
+    };
+    
+    if (!this.processors.isEmpty) {
+      record = this.processors.process(record, {
+        context: this.contextPrefix,
+        serviceName: this.serviceName,
+        environment: this.environment,
+        traceId: spanContext?.traceId ?? this.getRootSpanContext().traceId,
+        spanId: spanContext?.spanId,
+      }, this.serviceName);
+      if (!record) {
+        return;
+      }
+    }
+    
+    // Records logged without attributes keep printing without them
+    const hasAttributes = attributes !== undefined || Object.keys(record.attributes).length > 0;
+    const logAttributes = hasAttributes ? this.redact(record.attributes) : undefined;
+    const recordAttributes = this.contextPrefix
+      ? { [CONTEXT_ATTRIBUTE]: this.contextPrefix, ...logAttributes }
+      : { ...logAttributes };
     
-    if (error) {
-      errorAttributes.errorName = error.name;
-      errorAttributes.errorMessage = error.message;
-      errorAttributes.errorStack = error.stack;
+    const hasError = record.error !== undefined && record.error !== null;
+    let exception: Record<string, any> | undefined;
+    if (hasError) {
+      exception = this.exceptionAttributes(record.error);
+      Object.assign(recordAttributes, exception);
+      if (this.errorOptions.recordOnSpan) {
+        // Same redacted attributes as recordException would add
+        loggerStore.getStore()?.span?.addEvent('exception', exception);
+      }
     }
     
-    this.otelBackend?.createLogRecord(LogLevel.ERROR, formattedMessage, errorAttributes);
-    console.error(`[${this.serviceName}] [ERROR] ${formattedMessage}`, error || '', attributes || '');
+    this.otelBackend?.createLogRecord(
+      record.level,
+      this.formatMessage(record.message),
+      hasError || this.contextPrefix ? recordAttributes : logAttributes,
+      false,
+      spanContext,
+      this.scope
+    );
+    // The console gets the redacted exception attributes, never the raw error
+    this.writeConsole(record.level, record.message, logAttributes, exception);
+  }
+
+  /**
+   * Serialize an error as redacted exception attributes
+   * Fields are redacted under their own names, so key rules such as 'token' match them.
+   */
+  private exceptionAttributes(error: unknown): Record<string, any> {
+    return toExceptionAttributes(this.redact(errorFields(error, this.errorOptions.maxDepth)));
+  }
+
+  /**
+   * Apply the redaction rules, if any
+   */
+  private redact(attributes: Record<string, any>): Record<string, any> {
+    return this.redactor ? this.redactor.redact(attributes)! : attributes;
+  }
+
+  /**
+   * Add a processor to this logger
+   * It applies to records emitted by this logger and the contexts created from it,
+   * after the processors of its parent contexts.
+   * @param processor The processor to add
+   * @returns This logger
+   */
+  addProcessor(processor: LogProcessor): this {
+    this.processors.add(processor);
+    return this;
   }
 
   /**
    * Create a new logger with context
    * @param context The context to add to log messages
+   * @param attributes Optional attributes added to every record the new logger emits
    * @returns A new logger that prepends context to messages
    */
-  newContext(context: string): ContextLogger {
+  newContext(context: string, attributes?: Record<string, any>): ContextLogger {
     const newContextPrefix = this.contextPrefix 
       ? `${this.contextPrefix}:${context}` 
       : context;
     
-    // Create a new logger instance with the same configuration but different context
-    const contextLogger = new Logger(
-      this.otelBackend ? {
-        endpoint: '', // Not used for context loggers
-        headers: {},  // Not used for context loggers
-        serviceName: this.serviceName,
-        environment: this.environment
-      } : undefined,
-      newContextPrefix
-    );
-    
-    // Share the same OTEL backend instance to avoid creating multiple connections
-    contextLogger.otelBackend = this.otelBackend;
+    return this.derive(newContextPrefix, attributes);
+  }
+
+  /**
+   * Create a new logger that adds attributes to every record it emits
+   * The logger keeps this logger's context; per-call attributes override bound ones.
+   * @param attributes Attributes to add, merged over this logger's bound attributes
+   * @returns A new logger with the merged attributes
+   */
+  withAttributes(attributes: Record<string, any>): ContextLogger {
+    return this.derive(this.contextPrefix, attributes);
+  }
+
+  /**
+   * Create a child logger sharing this logger's configuration
+   * The OTEL backend, level filter and lifecycle are shared to avoid creating
+   * multiple connections; processors added to the child do not affect this logger.
+   */
+  private derive(contextPrefix: string, attributes?: Record<string, any>): Logger {
+    const child: Logger = Object.assign(Object.create(Logger.prototype), this);
+    child.contextPrefix = contextPrefix;
+    child.boundAttributes = attributes ? { ...this.boundAttributes, ...attributes } : this.boundAttributes;
+    child.processors = this.processors.child();
     
-    return contextLogger;
+    // Context loggers report their context prefix as instrumentation scope
+    if (contextPrefix !== this.contextPrefix) {
+      child.scope = createScope(contextPrefix, this.scope.version);
+    }
+    return child;
   }
 
   /**
@@ -202,6 +684,25 @@ export class Logger implements ContextLogger {
    * @returns Promise that resolves when logs are flushed
    */
   async flush(): Promise<void> {
+    await this.processors.flush(this.serviceName);
     await this.otelBackend?.flush();
   }
+
+  /**
+   * Export queued records and stop logging
+   * Applies to this logger and every logger sharing its configuration. Records
+   * logged afterwards are dropped; records not exported within the timeout are lost.
+   * @param timeoutMillis Maximum time to wait for queued records (default: shutdownTimeoutMillis, 5000)
+   * @returns Promise that resolves when the logger is shut down
+   */
+  async shutdown(timeoutMillis: number = this.lifecycle.shutdownTimeoutMillis): Promise<void> {
+    if (this.lifecycle.isShutdown) {
+      return;
+    }
+    this.lifecycle.isShutdown = true;
+    this.lifecycle.unregisterHooks?.();
+    
+    await this.processors.shutdown(this.serviceName);
+    await this.otelBackend?.shutdown(timeoutMillis);
+  }
 }
@@ -0,0 +1,307 @@
+/**
+ * HTTP Server Middleware
+ *
+ * Runs each incoming request in its own request context, continuing the
+ * caller's trace from its traceparent header, and logs when the request
+ * starts and finishes using the HTTP semantic-convention attributes.
+ * Works with node:http, Connect/Express-style middleware and fetch handlers
+ * (Bun, Deno, Workers, Hono).
+ */
+
+import type { Logger } from './logger';
+import { ContextLogger, HttpMiddlewareOptions, NodeHttpRequest, NodeHttpResponse } from './types';
+
+/**
+ * Default context of the request logger
+ */
+const DEFAULT_CONTEXT = 'http';
+
+/**
+ * Request loggers attached by the middleware, keyed by request
+ */
+const requestLoggers = new WeakMap<object, ContextLogger>();
+
+/**
+ * What the middleware needs to know about an incoming request
+ */
+interface RequestDetails {
+  method: string;
+  path: string;
+  traceparent?: string | null;
+  tracestate?: string | null;
+  attributes: Record<string, any>;
+}
+
+/**
+ * Remove attributes without a value
+ */
+function definedAttributes(attributes: Record<string, any>): Record<string, any> {
+  return Object.fromEntries(Object.entries(attributes).filter(([, value]) => value !== undefined));
+}
+
+/**
+ * Logs the start and end of a single request
+ */
+class RequestLog {
+  readonly logger: ContextLogger;
+  private details: RequestDetails;
+  private startTime = Date.now();
+
+  constructor(logger: Logger, details: RequestDetails, options: HttpMiddlewareOptions) {
+    this.logger = logger.newContext(options.context ?? DEFAULT_CONTEXT);
+    this.details = details;
+    if (options.logStart ?? true) {
+      this.logger.info(`Started ${details.method} ${details.path}`, details.attributes);
+    }
+  }
+
+  /**
+   * Log the response, at warn level for 4xx and error level for 5xx statuses
+   * @param status The response status code
+   * @param route The matched route template, if known
+   */
+  finish(status: number, route?: string): void {
+    const { method, path } = this.details;
+    const message = `Completed ${method} ${path} ${status} in ${this.elapsedMillis()}ms`;
+    const attributes = this.endAttributes({ 'http.route': route, 'http.response.status_code': status });
+
+    if (status >= 500) {
+      this.logger.error(message, undefined, attributes);
+    } else if (status >= 400) {
+      this.logger.warn(message, attributes);
+    } else {
+      this.logger.info(message, attributes);
+    }
+  }
+
+  /**
+   * Log a request whose client disconnected before the response was sent
+   */
+  abort(route?: string): void {
+    const { method, path } = this.details;
+    this.logger.warn(`Aborted ${method} ${path} after ${this.elapsedMillis()}ms`, this.endAttributes({ 'http.route': route }));
+  }
+
+  /**
+   * Log a request whose handler threw
+   * @param error The thrown value
+   * @param status The response status code, if one was sent
+   */
+  fail(error: unknown, status?: number): void {
+    const { method, path } = this.details;
+    this.logger.error(
+      `Failed ${method} ${path} after ${this.elapsedMillis()}ms`,
+      error,
+      this.endAttributes({ 'http.response.status_code': status })
+    );
+  }
+
+  private elapsedMillis(): number {
+    return Date.now() - this.startTime;
+  }
+
+  /**
+   * Attributes of the final record, with the duration in seconds as in the semantic conventions
+   */
+  private endAttributes(attributes: Record<string, any>): Record<string, any> {
+    return definedAttributes({
+      ...this.details.attributes,
+      ...attributes,
+      'http.server.request.duration': this.elapsedMillis() / 1000,
+    });
+  }
+}
+
+/**
+ * Run a request handler in a request context with request logging
+ */
+function runRequest<T>(
+  logger: Logger,
+  details: RequestDetails,
+  options: HttpMiddlewareOptions,
+  fn: (log: RequestLog) => Promise<T>
+): Promise<T> {
+  return logger.withRequest(() => fn(new RequestLog(logger, details, options)), undefined, {
+    traceparent: details.traceparent,
+    tracestate: details.tracestate,
+    flush: options.flush ?? 'auto',
+  });
+}
+
+/**
+ * Read a Node.js header, joining repeated values
+ */
+function nodeHeader(request: NodeHttpRequest, name: string): string | undefined {
+  const value = request.headers[name];
+  return Array.isArray(value) ? value.join(',') : value;
+}
+
+/**
+ * Describe a node:http request
+ */
+function nodeRequestDetails(request: NodeHttpRequest): RequestDetails {
+  const method = request.method ?? 'GET';
+  const path = (request.url ?? '/').split('?')[0];
+
+  return {
+    method,
+    path,
+    traceparent: nodeHeader(request, 'traceparent'),
+    tracestate: nodeHeader(request, 'tracestate'),
+    attributes: definedAttributes({
+      'http.request.method': method,
+      'url.path': path,
+      'server.address': nodeHeader(request, 'host')?.replace(/:\d+$/, ''),
+      'client.address': request.socket?.remoteAddress,
+      'user_agent.original': nodeHeader(request, 'user-agent'),
+      'network.protocol.version': request.httpVersion,
+    }),
+  };
+}
+
+/**
+ * Get the Express route template matched by a request, e.g. '/users/:id'
+ */
+function nodeRoute(request: NodeHttpRequest): string | undefined {
+  const path = request.route?.path;
+  return typeof path === 'string' ? `${request.baseUrl ?? ''}${path}` : undefined;
+}
+
+/**
+ * Wait until a response has been sent or its connection closed
+ * @returns False if the connection closed before the response was sent
+ */
+function whenFinished(response: NodeHttpResponse): Promise<boolean> {
+  return new Promise(resolve => {
+    response.once('finish', () => resolve(true));
+    response.once('close', () => resolve(response.writableFinished ?? true));
+  });
+}
+
+/**
+ * Describe a fetch request
+ */
+function fetchRequestDetails(request: Request): RequestDetails {
+  const url = new URL(request.url);
+
+  return {
+    method: request.method,
+    path: url.pathname,
+    traceparent: request.headers.get('traceparent'),
+    tracestate: request.headers.get('tracestate'),
+    attributes: definedAttributes({
+      'http.request.method': request.method,
+      'url.path': url.pathname,
+      'url.scheme': url.protocol.replace(/:$/, ''),
+      'server.address': url.hostname,
+      'user_agent.original': request.headers.get('user-agent') ?? undefined,
+    }),
+  };
+}
+
+/**
+ * Get the request logger attached by the middleware
+ * Inside a request, createLogger() also returns loggers in the request's context.
+ * @param request The incoming request (node:http, Express or fetch)
+ * @returns The request logger, or undefined if the request was not handled by the middleware
+ */
+export function getRequestLogger(request: object): ContextLogger | undefined {
+  return requestLoggers.get(request);
+}
+
+/**
+ * Wrap a node:http request listener
+ * If the listener throws, the error is logged and a 500 response is sent
+ * unless the response was already started.
+ * @param logger The root logger
+ * @param handler The request listener
+ * @param options Middleware options
+ * @returns A request listener for http.createServer
+ */
+export function wrapHttpHandler<Req extends NodeHttpRequest, Res extends NodeHttpResponse>(
+  logger: Logger,
+  handler: (request: Req, response: Res) => void | Promise<void>,
+  options: HttpMiddlewareOptions = {}
+): (request: Req, response: Res) => Promise<void> {
+  return (request, response) => runRequest(logger, nodeRequestDetails(request), options, async log => {
+    request.logger = log.logger;
+    requestLoggers.set(request, log.logger);
+    const finished = whenFinished(response);
+
+    try {
+      await handler(request, response);
+    } catch (error) {
+      if (!response.headersSent) {
+        response.statusCode = 500;
+      }
+      if (!response.writableEnded) {
+        response.end();
+      }
+      log.fail(error, response.statusCode);
+      return;
+    }
+
+    if (await finished) {
+      log.finish(response.statusCode, nodeRoute(request));
+    } else {
+      log.abort(nodeRoute(request));
+    }
+  });
+}
+
+/**
+ * Create Connect/Express-style middleware
+ * Register it before the routes so they run in the request's context.
+ * @param logger The root logger
+ * @param options Middleware options
+ * @returns Middleware taking (req, res, next)
+ */
+export function createHttpMiddleware<Req extends NodeHttpRequest, Res extends NodeHttpResponse>(
+  logger: Logger,
+  options: HttpMiddlewareOptions = {}
+): (request: Req, response: Res, next: (error?: unknown) => void) => void {
+  return (request, response, next) => {
+    void runRequest(logger, nodeRequestDetails(request), options, async log => {
+      request.logger = log.logger;
+      requestLoggers.set(request, log.logger);
+      const finished = whenFinished(response);
+
+      next();
+
+      // The route is only known once the router has matched the request
+      if (await finished) {
+        log.finish(response.statusCode, nodeRoute(request));
+      } else {
+        log.abort(nodeRoute(request));
+      }
+    });
+  };
+}
+
+/**
+ * Wrap a fetch handler, `(request) => Response`, as used by Bun, Deno, Workers and Hono
+ * Extra arguments (e.g. env and ctx in Workers) are passed through. Errors are
+ * logged and rethrown.
+ * @param logger The root logger
+ * @param handler The fetch handler
+ * @param options Middleware options
+ * @returns A fetch handler
+ */
+export function wrapFetchHandler<Args extends unknown[]>(
+  logger: Logger,
+  handler: (request: Request, ...args: Args) => Response | Promise<Response>,
+  options: HttpMiddlewareOptions = {}
+): (request: Request, ...args: Args) => Promise<Response> {
+  return (request, ...args) => runRequest(logger, fetchRequestDetails(request), options, async log => {
+    requestLoggers.set(request, log.logger);
+
+    try {
+      const response = await handler(request, ...args);
+      log.finish(response.status);
+      return response;
+    } catch (error) {
+      log.fail(error);
+      throw error;
+    }
+  });
+}
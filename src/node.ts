@@ -0,0 +1,26 @@
+/**
+ * otel-http-logger for Node.js
+ *
+ * Same API as the default entry point, with the parts that need Node.js
+ * modules registered: AsyncLocalStorage from 'async_hooks', so context
+ * propagation also works where it is not detected at runtime (e.g. Node.js
+ * before 20.16), file offline buffers and the zlib gzip fallback.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { gzip } from 'zlib';
+import { registerAsyncLocalStorage } from './context';
+import { registerGzip } from './compression';
+import { registerFileBufferStorage } from './offline';
+import { FileBufferStorage } from './file-storage';
+
+registerAsyncLocalStorage(AsyncLocalStorage);
+registerFileBufferStorage(FileBufferStorage);
+registerGzip(data => new Promise((resolve, reject) => {
+  gzip(data, (error, result) => (error ? reject(error) : resolve(new Uint8Array(result))));
+}));
+
+export * from './index';
+
+// Export file offline buffering
+export { FileBufferStorage } from './file-storage';
@@ -0,0 +1,412 @@
+/**
+ * Offline Buffer
+ *
+ * Keeps batches that could not be exported in durable storage (a file on
+ * Node.js and Bun, registered by the Node.js entry point, IndexedDB or
+ * localStorage in browsers) and replays them
+ * once exports succeed again or the next time the logger starts, so records
+ * explaining a crash during a collector outage are not lost.
+ */
+
+import {
+  BufferStorage,
+  OfflineBufferConfig,
+  ExportLogsServiceRequest,
+  ExportTraceServiceRequest
+} from './types';
+
+/**
+ * Default maximum total size of buffered batches (5 MiB)
+ */
+export const DEFAULT_OFFLINE_BUFFER_MAX_BYTES = 5 * 1024 * 1024;
+
+/**
+ * Default number of files a file buffer rotates through
+ */
+export const DEFAULT_OFFLINE_BUFFER_MAX_FILES = 5;
+
+/**
+ * A batch kept in the offline buffer
+ * `exporters` lists the indexes of the exporters the batch is still pending
+ * on when it failed on only some of them; it is sent to every exporter otherwise.
+ */
+export type BufferedBatch = (
+  | { signal: 'logs'; request: ExportLogsServiceRequest }
+  | { signal: 'spans'; request: ExportTraceServiceRequest }
+) & { exporters?: number[] };
+
+/**
+ * Size of a string in bytes when encoded as UTF-8
+ */
+export function byteLength(value: string): number {
+  return new TextEncoder().encode(value).length;
+}
+
+/**
+ * Drop the oldest entries until the total size fits
+ * @param entries Entries, oldest first
+ * @param maxBytes Maximum total size in bytes
+ * @returns The newest entries that fit
+ */
+function trimToSize(entries: string[], maxBytes: number): string[] {
+  let total = 0;
+  let start = entries.length;
+  while (start > 0 && total + byteLength(entries[start - 1]) <= maxBytes) {
+    start--;
+    total += byteLength(entries[start]);
+  }
+  return entries.slice(start);
+}
+
+/**
+ * Split newline-separated entries, ignoring blank lines
+ */
+export function splitEntries(content: string): string[] {
+  return content.split('\n').filter(line => line.trim() !== '');
+}
+
+/**
+ * Buffer storage in a single localStorage key (browsers)
+ */
+export class LocalStorageBufferStorage implements BufferStorage {
+  private key: string;
+  private maxBytes: number;
+
+  /**
+   * Create a new localStorage buffer storage
+   * @param key The localStorage key
+   * @param maxBytes Maximum total size of the entries in bytes
+   */
+  constructor(key: string, maxBytes: number = DEFAULT_OFFLINE_BUFFER_MAX_BYTES) {
+    this.key = key;
+    this.maxBytes = maxBytes;
+  }
+
+  /**
+   * Append an entry, dropping the oldest entries to stay within the cap
+   * @param entry The entry to append
+   */
+  async append(entry: string): Promise<void> {
+    await this.write([...(await this.load()), entry]);
+  }
+
+  /**
+   * Read every entry, oldest first
+   */
+  async load(): Promise<string[]> {
+    return splitEntries(localStorage.getItem(this.key) ?? '');
+  }
+
+  /**
+   * Replace the stored entries
+   * @param entries The entries to keep
+   */
+  async replace(entries: string[]): Promise<void> {
+    await this.write(entries);
+  }
+
+  /**
+   * Write the newest entries that fit, dropping more when the browser's quota is reached
+   */
+  private async write(entries: string[]): Promise<void> {
+    let kept = trimToSize(entries, this.maxBytes);
+
+    for (;;) {
+      if (kept.length === 0) {
+        localStorage.removeItem(this.key);
+        return;
+      }
+      try {
+        localStorage.setItem(this.key, kept.join('\n'));
+        return;
+      } catch (error) {
+        if (kept.length === 1) {
+          throw error;
+        }
+        // Quota exceeded: keep the newest half and try again
+        kept = kept.slice(Math.floor(kept.length / 2));
+      }
+    }
+  }
+}
+
+/**
+ * Wait for an IndexedDB request to complete
+ */
+function requestResult<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Wait for an IndexedDB transaction to commit
+ */
+function transactionDone(transaction: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+}
+
+/**
+ * Buffer storage in an IndexedDB object store (browsers)
+ */
+export class IndexedDbBufferStorage implements BufferStorage {
+  private static readonly STORE = 'entries';
+  private name: string;
+  private maxBytes: number;
+  private database?: Promise<IDBDatabase>;
+
+  /**
+   * Create a new IndexedDB buffer storage
+   * @param name The database name
+   * @param maxBytes Maximum total size of the entries in bytes
+   */
+  constructor(name: string, maxBytes: number = DEFAULT_OFFLINE_BUFFER_MAX_BYTES) {
+    this.name = name;
+    this.maxBytes = maxBytes;
+  }
+
+  /**
+   * Append an entry, dropping the oldest entries to stay within the cap
+   * @param entry The entry to append
+   */
+  async append(entry: string): Promise<void> {
+    const transaction = (await this.open()).transaction(IndexedDbBufferStorage.STORE, 'readwrite');
+    const store = transaction.objectStore(IndexedDbBufferStorage.STORE);
+    const done = transactionDone(transaction);
+
+    store.add(entry);
+    const keys = store.getAllKeys();
+    const values = store.getAll();
+    // Delete from the success callback, while the transaction is still active
+    values.onsuccess = () => {
+      const kept = trimToSize(values.result, this.maxBytes).length;
+      keys.result.slice(0, keys.result.length - kept).forEach(key => store.delete(key));
+    };
+
+    await done;
+  }
+
+  /**
+   * Read every entry, oldest first
+   */
+  async load(): Promise<string[]> {
+    const transaction = (await this.open()).transaction(IndexedDbBufferStorage.STORE, 'readonly');
+    return requestResult(transaction.objectStore(IndexedDbBufferStorage.STORE).getAll());
+  }
+
+  /**
+   * Replace the stored entries in a single transaction
+   * @param entries The entries to keep
+   */
+  async replace(entries: string[]): Promise<void> {
+    const transaction = (await this.open()).transaction(IndexedDbBufferStorage.STORE, 'readwrite');
+    const store = transaction.objectStore(IndexedDbBufferStorage.STORE);
+    const done = transactionDone(transaction);
+
+    store.clear();
+    entries.forEach(entry => store.add(entry));
+    await done;
+  }
+
+  /**
+   * Open the database, creating the object store on first use
+   */
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      const request = indexedDB.open(this.name, 1);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(IndexedDbBufferStorage.STORE, { autoIncrement: true });
+      };
+      this.database = requestResult(request);
+    }
+    return this.database;
+  }
+}
+
+/**
+ * Constructor of a file buffer storage
+ */
+export type FileBufferStorageConstructor = new (path: string, maxBytes?: number, maxFiles?: number) => BufferStorage;
+
+// File buffer storage registered by the Node.js entry point, if any
+let registeredFileBufferStorage: FileBufferStorageConstructor | undefined;
+
+/**
+ * Register the storage used for offline buffers configured with a path
+ * The Node.js entry point registers FileBufferStorage, so the default entry
+ * point does not import 'fs' and bundles for browsers.
+ * @param storage The file buffer storage constructor
+ */
+export function registerFileBufferStorage(storage: FileBufferStorageConstructor): void {
+  registeredFileBufferStorage = storage;
+}
+
+/**
+ * Check whether we are running on Node.js, Bun or another runtime with Node's fs module
+ */
+function isNodeRuntime(): boolean {
+  return typeof process !== 'undefined' && typeof process.versions?.node === 'string';
+}
+
+/**
+ * Create the default buffer storage for the current runtime
+ * On Node.js and Bun the buffer needs an explicit path, since a shared default
+ * file would be written by every process of the service.
+ * @param config Offline buffer configuration
+ * @param serviceName Service name used to name the storage and prefix diagnostics
+ * @returns The storage, or undefined if the runtime has no durable storage
+ */
+export function createDefaultBufferStorage(
+  config: OfflineBufferConfig,
+  serviceName: string
+): BufferStorage | undefined {
+  const maxBytes = config.maxBytes ?? DEFAULT_OFFLINE_BUFFER_MAX_BYTES;
+  const key = config.key ?? `otel-http-logger:${serviceName}`;
+
+  if (config.path && registeredFileBufferStorage) {
+    return new registeredFileBufferStorage(config.path, maxBytes, config.maxFiles);
+  }
+  if (isNodeRuntime()) {
+    console.warn(config.path
+      ? `[${serviceName}] File offline buffers need the Node.js entry point, keeping failed batches in memory`
+      : `[${serviceName}] Set offlineBuffer.path to buffer failed batches in a file, keeping them in memory`);
+    return undefined;
+  }
+  if (typeof indexedDB !== 'undefined') {
+    return new IndexedDbBufferStorage(key, maxBytes);
+  }
+  if (typeof localStorage !== 'undefined') {
+    return new LocalStorageBufferStorage(key, maxBytes);
+  }
+  return undefined;
+}
+
+/**
+ * Parse a stored entry, returning undefined for corrupted entries
+ */
+function parseEntry(entry: string): BufferedBatch | undefined {
+  try {
+    const batch = JSON.parse(entry);
+    if (batch?.signal === 'logs' && Array.isArray(batch.request?.resourceLogs)) {
+      return batch;
+    }
+    if (batch?.signal === 'spans' && Array.isArray(batch.request?.resourceSpans)) {
+      return batch;
+    }
+  } catch {
+    // Fall through to report the entry as corrupted
+  }
+  return undefined;
+}
+
+/**
+ * Offline Buffer
+ * Serializes access to a buffer storage and replays stored batches in order
+ */
+export class OfflineBuffer {
+  private storage: Promise<BufferStorage | undefined>;
+  private maxBytes: number;
+  private serviceName: string;
+  private chain: Promise<unknown> = Promise.resolve();
+  private storedCount?: number;
+
+  /**
+   * Create a new offline buffer
+   * @param config Offline buffer configuration
+   * @param serviceName Service name used to name the storage and prefix diagnostics
+   */
+  constructor(config: OfflineBufferConfig, serviceName: string) {
+    this.serviceName = serviceName;
+    this.maxBytes = config.maxBytes ?? DEFAULT_OFFLINE_BUFFER_MAX_BYTES;
+    this.storage = Promise.resolve(config.storage ?? createDefaultBufferStorage(config, serviceName));
+  }
+
+  /**
+   * Store a batch that failed to export
+   * @param batch The batch to store
+   * @returns True if the batch was stored, false if it must stay in memory
+   */
+  store(batch: BufferedBatch): Promise<boolean> {
+    return this.exclusive(async storage => {
+      if (!storage) {
+        return false;
+      }
+
+      const entry = JSON.stringify(batch);
+      if (byteLength(entry) > this.maxBytes) {
+        console.warn(`[${this.serviceName}] Batch is larger than the ${this.maxBytes} byte offline buffer, keeping it in memory`);
+        return false;
+      }
+
+      try {
+        await storage.append(entry);
+        this.storedCount = (this.storedCount ?? 0) + 1;
+        return true;
+      } catch (error) {
+        console.warn(`[${this.serviceName}] Could not write to the offline buffer:`, error);
+        return false;
+      }
+    });
+  }
+
+  /**
+   * Export stored batches, oldest first, removing each one that was handled
+   * Stops at the first batch that fails so the rest keep their order.
+   * Corrupted entries are skipped and removed.
+   * @param exportBatch Export function for a stored batch; resolves to false if it failed
+   */
+  replay(exportBatch: (batch: BufferedBatch) => Promise<boolean>): Promise<void> {
+    return this.exclusive(async storage => {
+      if (!storage || this.storedCount === 0) {
+        return;
+      }
+
+      try {
+        const entries = await storage.load();
+        const batches = entries.map(parseEntry);
+        const corrupted = batches.filter(batch => !batch).length;
+        if (corrupted > 0) {
+          console.warn(`[${this.serviceName}] Skipping ${corrupted} corrupted entries in the offline buffer`);
+        }
+
+        let index = 0;
+        let replayed = 0;
+        for (; index < batches.length; index++) {
+          const batch = batches[index];
+          if (!batch) {
+            continue;
+          }
+          if (!(await exportBatch(batch))) {
+            break;
+          }
+          replayed++;
+        }
+
+        const remaining = entries.filter((_, i) => i >= index && batches[i]);
+        if (remaining.length < entries.length) {
+          await storage.replace(remaining);
+        }
+        if (replayed > 0) {
+          console.warn(`[${this.serviceName}] Replayed ${replayed} batches from the offline buffer`);
+        }
+        this.storedCount = remaining.length;
+      } catch (error) {
+        console.warn(`[${this.serviceName}] Could not replay the offline buffer:`, error);
+      }
+    });
+  }
+
+  /**
+   * Run an operation once every earlier operation has finished
+   */
+  private exclusive<T>(operation: (storage: BufferStorage | undefined) => Promise<T>): Promise<T> {
+    const result = this.chain.then(() => this.storage).then(operation);
+    this.chain = result.catch(() => {});
+    return result;
+  }
+}
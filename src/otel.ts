@@ -2,12 +2,33 @@
  * OpenTelemetry Backend Implementation
  * 
  * Handles all OpenTelemetry-specific functionality including:
- * - OTLP record creation and transmission
+ * - OTLP record creation, batching and hand-off to exporters
  * - ID generation utilities
  * - OTLP protocol formatting
  */
 
-import { OtelConfig, LogRecord, LogLevel } from './types';
+import {
+  OtelConfig,
+  ExportResult,
+  ExportResultCode,
+  ExportOptions,
+  LogExporter,
+  LogRecord,
+  LogLevel,
+  InstrumentationScope,
+  Resource,
+  KeyValue,
+  SpanContext,
+  SpanRecord,
+  ExportLogsServiceRequest,
+  ExportTraceServiceRequest
+} from './types';
+import { toKeyValueList, DEFAULT_MAX_ATTRIBUTE_DEPTH } from './attributes';
+import { BatchProcessor, DEFAULT_BATCH_CONFIG } from './batch';
+import { OtlpHttpExporter } from './exporters';
+import { OfflineBuffer, BufferedBatch } from './offline';
+import { detectResource, DEFAULT_RESOURCE_DETECTORS } from './resource';
+import type { Span } from './span';
 
 /**
  * Map log level to OTLP severity number
@@ -58,21 +79,65 @@ export function generateSpanId(): string {
   return generateRandomHexString(16);
 }
 
+/**
+ * Default maximum time shutdown waits for queued records to be exported
+ */
+export const DEFAULT_SHUTDOWN_TIMEOUT_MILLIS = 5000;
+
+/**
+ * Create an instrumentation scope, omitting an unset version
+ * @param name Scope name
+ * @param version Optional scope version
+ */
+export function createScope(name: string, version?: string): InstrumentationScope {
+  return version ? { name, version } : { name };
+}
+
+/**
+ * A queued record together with the instrumentation scope it was emitted from
+ */
+interface ScopedRecord<T> {
+  scope: InstrumentationScope;
+  record: T;
+}
+
+/**
+ * Group queued records by instrumentation scope, keeping their order within each scope
+ */
+function groupByScope<T>(queue: ScopedRecord<T>[]): { scope: InstrumentationScope; records: T[] }[] {
+  const groups = new Map<string, { scope: InstrumentationScope; records: T[] }>();
+  for (const { scope, record } of queue) {
+    const key = `${scope.name}@${scope.version ?? ''}`;
+    let group = groups.get(key);
+    if (!group) {
+      group = { scope, records: [] };
+      groups.set(key, group);
+    }
+    group.records.push(record);
+  }
+  return Array.from(groups.values());
+}
+
 /**
  * OpenTelemetry Backend
- * Handles OTLP record creation and transmission
+ * Handles OTLP record creation and batching, and hands batches to exporters
  */
 export class OtelBackend {
-  private endpoint: string;
-  private headers: Record<string, string>;
+  private exporters: LogExporter[];
   private serviceName: string;
   private environment: string;
-  private logQueue: LogRecord[] = [];
+  private resource: Resource;
+  private defaultScope: InstrumentationScope;
+  private maxAttributeDepth: number;
+  private logProcessor: BatchProcessor<ScopedRecord<LogRecord>>;
+  private spanProcessor: BatchProcessor<ScopedRecord<SpanRecord>>;
+  private offlineBuffer?: OfflineBuffer;
+  private pendingBatches: BufferedBatch[] = []; // Batches that failed on some exporters only
+  private maxPendingBatches: number;
   private parentSpanId: string;
   private parentTraceId: string;
   private lastTimestamp = 0; // Track the last used timestamp
-  private maxRetries = 3;
-  private retryDelay = 1000; // 1 second
+  private isShutdown = false;
 
   /**
    * Create a new OpenTelemetry backend
@@ -83,14 +148,68 @@ export class OtelBackend {
     this.parentTraceId = generateTraceId();
     this.parentSpanId = generateSpanId();
     
-    // Configure OTLP logging
-    this.endpoint = config.endpoint;
-    this.headers = {
-      'Content-Type': 'application/json',
-      ...config.headers
-    };
+    // Configure exporters, sending to the OTLP endpoint by default
+    this.exporters = config.exporters ?? [new OtlpHttpExporter(config)];
     this.serviceName = config.serviceName;
     this.environment = config.environment;
+    this.maxAttributeDepth = config.maxAttributeDepth ?? DEFAULT_MAX_ATTRIBUTE_DEPTH;
+    this.defaultScope = createScope(config.scopeName ?? config.serviceName, config.scopeVersion);
+    
+    // Detected attributes < configured attributes < service name and environment
+    this.resource = {
+      attributes: toKeyValueList({
+        ...detectResource(config.resourceDetectors ?? DEFAULT_RESOURCE_DETECTORS),
+        ...config.resourceAttributes,
+        'service.name': this.serviceName,
+        'deployment.environment': this.environment,
+      }, this.maxAttributeDepth),
+    };
+    
+    // Batch logs and spans in the background so long-running contexts still export them
+    const batchConfig = {
+      maxExportBatchSize: config.maxExportBatchSize,
+      scheduledDelayMillis: config.scheduledDelayMillis,
+      maxQueueSize: config.maxQueueSize,
+      dropPolicy: config.dropPolicy,
+      maxConcurrentExports: config.maxConcurrentExports,
+    };
+    this.maxPendingBatches = Math.ceil(
+      (config.maxQueueSize ?? DEFAULT_BATCH_CONFIG.maxQueueSize) / (config.maxExportBatchSize ?? DEFAULT_BATCH_CONFIG.maxExportBatchSize)
+    );
+    this.spanProcessor = new BatchProcessor(batch => this.exportSpans(batch), batchConfig);
+    this.logProcessor = new BatchProcessor(batch => this.exportLogs(batch), batchConfig, {
+      getSeverity: item => item.record.severityNumber,
+      onDropped: count => this.createLogRecord(
+        LogLevel.WARN,
+        `Dropped ${count} log records because the export queue was full`,
+        { 'otel.dropped_records': count },
+        true
+      ),
+    });
+    
+    // Keep batches that fail to export in durable storage, replaying any left by a previous run
+    if (config.offlineBuffer) {
+      this.offlineBuffer = new OfflineBuffer(config.offlineBuffer === true ? {} : config.offlineBuffer, this.serviceName);
+      void this.replayPendingBatches();
+    }
+  }
+
+  /**
+   * Whether queued records are exported automatically, without calling flush()
+   * False when scheduledDelayMillis is 0.
+   */
+  get exportsOnSchedule(): boolean {
+    return this.logProcessor.isScheduled;
+  }
+
+  /**
+   * Check whether a URL is an endpoint one of the OTLP/HTTP exporters sends to
+   * Query strings and fragments are ignored.
+   * @param url The URL to check
+   */
+  isExportEndpoint(url: string): boolean {
+    const target = url.split(/[?#]/)[0];
+    return this.exporters.some(exporter => exporter instanceof OtlpHttpExporter && exporter.endpoints.includes(target));
   }
 
   /**
@@ -113,13 +232,21 @@ export class OtelBackend {
    * @param message Log message
    * @param attributes Additional attributes to include in the log
    * @param isParentSpan Whether this log is for the parent span
+   * @param spanContext Optional trace (and span) the log was emitted in
+   * @param scope Optional instrumentation scope the log was emitted from (default: the root scope)
    */
   createLogRecord(
     level: LogLevel,
     message: string,
     attributes?: Record<string, any>,
-    isParentSpan: boolean = false
+    isParentSpan: boolean = false,
+    spanContext?: Partial<SpanContext>,
+    scope: InstrumentationScope = this.defaultScope
   ): void {
+    if (this.isShutdown) {
+      return;
+    }
+    
     // Get current time in nanoseconds
     let now = Date.now() * 1000000; // Convert to nanoseconds
     
@@ -129,10 +256,10 @@ export class OtelBackend {
     }
     this.lastTimestamp = now;
     
-    const spanId = isParentSpan ? this.parentSpanId : generateSpanId();
+    const spanId = spanContext?.spanId ?? (isParentSpan ? this.parentSpanId : generateSpanId());
     
     // Create log attributes
-    const logAttributes = [
+    const logAttributes: KeyValue[] = [
       {
         key: 'level',
         value: {
@@ -153,8 +280,8 @@ export class OtelBackend {
       },
     ];
     
-    // Add parent span ID reference for child spans
-    if (!isParentSpan) {
+    // Add parent span ID reference for logs that belong to the parent trace
+    if (!isParentSpan && !spanContext?.traceId) {
       logAttributes.push({
         key: 'parent.id',
         value: {
@@ -163,21 +290,9 @@ export class OtelBackend {
       });
     }
     
-    // Add custom attributes
+    // Add custom attributes as typed OTLP values
     if (attributes) {
-      Object.entries(attributes).forEach(([key, value]) => {
-        // Convert complex objects to JSON strings
-        const attrValue = typeof value === 'object' && value !== null
-          ? JSON.stringify(value)
-          : String(value);
-        
-        logAttributes.push({
-          key,
-          value: {
-            stringValue: attrValue,
-          },
-        });
-      });
+      logAttributes.push(...toKeyValueList(attributes, this.maxAttributeDepth));
     }
     
     // Create log record
@@ -189,96 +304,307 @@ export class OtelBackend {
       body: {
         stringValue: message,
       },
-      traceId: this.parentTraceId,
+      traceId: spanContext?.traceId ?? this.parentTraceId,
       spanId,
       attributes: logAttributes,
     };
     
     // Add to queue
-    this.logQueue.push(logRecord);
+    this.logProcessor.add({ scope, record: logRecord });
+  }
+
+  /**
+   * Convert an ended span to an OTLP span record and add it to the queue
+   * @param span The ended span
+   * @param scope Optional instrumentation scope the span was started from (default: the root scope)
+   */
+  recordSpan(span: Span, scope: InstrumentationScope = this.defaultScope): void {
+    if (this.isShutdown) {
+      return;
+    }
+    
+    const endTime = span.endTimeUnixNano ?? span.startTimeUnixNano;
+    const status = span.status;
+    
+    const spanRecord: SpanRecord = {
+      traceId: span.traceId,
+      spanId: span.spanId,
+      parentSpanId: span.parentSpanId,
+      name: span.name,
+      kind: 1, // SPAN_KIND_INTERNAL
+      startTimeUnixNano: span.startTimeUnixNano.toString(),
+      endTimeUnixNano: endTime.toString(),
+      attributes: toKeyValueList(span.getAttributes(), this.maxAttributeDepth),
+      events: span.getEvents().map(event => ({
+        timeUnixNano: event.timeUnixNano.toString(),
+        name: event.name,
+        attributes: toKeyValueList(event.attributes, this.maxAttributeDepth),
+      })),
+      status: status.message ? { code: status.code, message: status.message } : { code: status.code },
+    };
+    
+    this.spanProcessor.add({ scope, record: spanRecord });
   }
 
   /**
-   * Send all queued logs to the OTLP endpoint
-   * @returns Promise that resolves when logs are sent
+   * Send all queued logs and spans to the OTLP endpoints
+   * @returns Promise that resolves when logs and spans are sent
    */
   async flush(): Promise<void> {
-    if (this.logQueue.length === 0) {
+    await Promise.all([
+      this.logProcessor.flush(),
+      this.spanProcessor.flush(),
+    ]);
+    
+    // Retry batches that failed on some exporters, as requeued records are retried
+    if (this.pendingBatches.length > 0) {
+      await this.replayPendingBatches();
+    }
+  }
+
+  /**
+   * Send only the queued logs and spans belonging to one trace
+   * Records from other traces stay queued for the next flush
+   * @param traceId The trace to flush
+   * @returns Promise that resolves when the trace's records are sent
+   */
+  async flushTrace(traceId: string): Promise<void> {
+    await Promise.all([
+      this.logProcessor.flush(item => item.record.traceId === traceId),
+      this.spanProcessor.flush(item => item.record.traceId === traceId),
+    ]);
+  }
+
+  /**
+   * Send every queued log and span while the page unloads
+   * Records are handed to the exporters synchronously (sendBeacon or fetch keepalive)
+   * and are not requeued if sending fails, since the page may not come back.
+   */
+  flushOnUnload(): void {
+    const logs = this.logProcessor.drain();
+    const spans = this.spanProcessor.drain();
+    
+    // Logs first, since browsers limit the total size of pending beacons
+    if (logs.length > 0) {
+      void this.exportLogs(logs, { unloading: true });
+    }
+    if (spans.length > 0) {
+      void this.exportSpans(spans, { unloading: true });
+    }
+  }
+
+  /**
+   * Export queued records, then shut down every exporter
+   * New records are ignored once shutdown starts. Records still queued when the
+   * timeout expires, or that fail to export, are dropped.
+   * @param timeoutMillis Maximum time to wait for queued records to be exported
+   * @returns Promise that resolves when the exporters are shut down
+   */
+  async shutdown(timeoutMillis: number = DEFAULT_SHUTDOWN_TIMEOUT_MILLIS): Promise<void> {
+    if (this.isShutdown) {
       return;
     }
+    this.isShutdown = true;
     
-    // Create a copy of the queue and clear it
-    const queue = [...this.logQueue];
-    this.logQueue = [];
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timedOut = await Promise.race([
+      this.flush().then(() => false),
+      new Promise<boolean>(resolve => {
+        timer = setTimeout(() => resolve(true), timeoutMillis);
+      }),
+    ]);
+    clearTimeout(timer);
     
+    const dropped = this.logProcessor.drain().length + this.spanProcessor.drain().length;
+    if (timedOut) {
+      console.warn(`[${this.serviceName}] Shutdown timed out after ${timeoutMillis}ms, dropping ${dropped} queued records`);
+    } else if (dropped > 0) {
+      console.warn(`[${this.serviceName}] Dropping ${dropped} records that could not be exported before shutdown`);
+    }
+    
+    await Promise.all(this.exporters.map(exporter => exporter.shutdown()));
+  }
+
+  /**
+   * Hand a batch of logs to every exporter
+   * @param queue The log records to export
+   * @param options Optional export options
+   * @returns False if the batch failed on every exporter and should be requeued
+   */
+  private async exportLogs(queue: ScopedRecord<LogRecord>[], options?: ExportOptions): Promise<boolean> {
     // Create OTLP payload
-    const payload = {
+    const payload: ExportLogsServiceRequest = {
       resourceLogs: [
         {
-          resource: {
-            attributes: [
-              {
-                key: 'service.name',
-                value: {
-                  stringValue: this.serviceName,
-                },
-              },
-              {
-                key: 'deployment.environment',
-                value: {
-                  stringValue: this.environment,
-                },
-              },
-            ],
-          },
-          scopeLogs: [
-            {
-              logRecords: queue,
-            },
-          ],
+          resource: this.resource,
+          scopeLogs: groupByScope(queue).map(({ scope, records }) => ({
+            scope,
+            logRecords: records,
+          })),
         },
       ],
     };
     
-    // Try to send logs with retries
-    let retries = 0;
-    let success = false;
+    const batch: BufferedBatch = { signal: 'logs', request: payload };
+    return this.afterExport(batch, await this.sendBatch(batch, options), options);
+  }
+
+  /**
+   * Hand a batch of spans to every exporter that accepts spans
+   * @param queue The span records to export
+   * @param options Optional export options
+   * @returns False if the batch failed on every exporter and should be requeued
+   */
+  private async exportSpans(queue: ScopedRecord<SpanRecord>[], options?: ExportOptions): Promise<boolean> {
+    // Create OTLP payload
+    const payload: ExportTraceServiceRequest = {
+      resourceSpans: [
+        {
+          resource: this.resource,
+          scopeSpans: groupByScope(queue).map(({ scope, records }) => ({
+            scope,
+            spans: records,
+          })),
+        },
+      ],
+    };
     
-    while (!success && retries <= this.maxRetries) {
-      try {
-        // Skip actual sending if no endpoint is configured
-        if (!this.endpoint) {
-          console.info(`[${this.serviceName}] No OTLP endpoint configured, skipping log transmission`);
-          return;
-        }
-        
-        // Send logs to OTLP endpoint
-        const response = await fetch(this.endpoint, {
-          method: 'POST',
-          headers: this.headers,
-          body: JSON.stringify(payload),
-        });
-        
-        if (!response.ok) {
-          throw new Error(`HTTP error ${response.status}: ${response.statusText}`);
-        }
-        
-        console.info(`[${this.serviceName}] Successfully sent ${queue.length} logs to OTLP endpoint`);
-        success = true;
-      } catch (error) {
-        retries++;
-        
-        if (retries > this.maxRetries) {
-          console.error(`[${this.serviceName}] Failed to send logs after ${this.maxRetries} retries:`, error);
-          // Put logs back in queue for next flush
-          this.logQueue = [...queue, ...this.logQueue];
-        } else {
-          console.warn(`[${this.serviceName}] Error sending logs (retry ${retries}/${this.maxRetries}):`, error);
-          // Wait before retrying
-          await new Promise(resolve => setTimeout(resolve, this.retryDelay * retries));
-        }
+    const batch: BufferedBatch = { signal: 'spans', request: payload };
+    return this.afterExport(batch, await this.sendBatch(batch, options), options);
+  }
+
+  /**
+   * Exporters that accept spans
+   */
+  private spanExporters(): LogExporter[] {
+    return this.exporters.filter(exporter => exporter.exportSpans);
+  }
+
+  /**
+   * Exporters a batch is sent to: those still pending for a retried batch, otherwise every one that accepts its signal
+   */
+  private exportersFor(batch: BufferedBatch): LogExporter[] {
+    const exporters = batch.signal === 'logs' ? this.exporters : this.spanExporters();
+    const pending = batch.exporters;
+    return pending ? exporters.filter(exporter => pending.includes(this.exporters.indexOf(exporter))) : exporters;
+  }
+
+  /**
+   * Send a batch to its exporters
+   * @param batch The batch to send
+   * @param options Optional export options
+   * @returns The exporters the batch should be retried on
+   */
+  private sendBatch(batch: BufferedBatch, options?: ExportOptions): Promise<LogExporter[]> {
+    return this.runExporters(this.exportersFor(batch), exporter => batch.signal === 'logs'
+      ? exporter.export(batch.request, options)
+      : exporter.exportSpans!(batch.request, options));
+  }
+
+  /**
+   * Narrow a batch to the exporters it failed on
+   */
+  private pendingOn(batch: BufferedBatch, failed: LogExporter[]): BufferedBatch {
+    return { ...batch, exporters: failed.map(exporter => this.exporters.indexOf(exporter)) };
+  }
+
+  /**
+   * Requeue or store a batch that failed on every exporter, keep a batch that
+   * failed on some of them for those exporters only, and replay kept batches
+   * once a batch succeeds everywhere
+   * @param batch The exported batch
+   * @param failed The exporters the batch should be retried on
+   * @param options Optional export options
+   * @returns True if the batch was handled or kept, false if it should be requeued
+   */
+  private async afterExport(batch: BufferedBatch, failed: LogExporter[], options?: ExportOptions): Promise<boolean> {
+    const failedEverywhere = failed.length > 0 && failed.length === this.exportersFor(batch).length;
+    
+    // The offline buffer is asynchronous, so it cannot be used while the page unloads
+    if (options?.unloading) {
+      return !failedEverywhere;
+    }
+    
+    if (failedEverywhere) {
+      return this.offlineBuffer ? this.offlineBuffer.store(batch) : false;
+    }
+    if (failed.length > 0) {
+      // Requeueing the whole batch would duplicate it on the exporters that succeeded
+      await this.keepPendingBatch(this.pendingOn(batch, failed));
+    } else {
+      void this.replayPendingBatches();
+    }
+    return true;
+  }
+
+  /**
+   * Keep a batch that still has to be sent to some exporters
+   * Uses the offline buffer if there is one, otherwise memory, where the
+   * oldest batches are dropped once the queue's worth of batches is kept.
+   */
+  private async keepPendingBatch(batch: BufferedBatch): Promise<void> {
+    if (this.offlineBuffer && await this.offlineBuffer.store(batch)) {
+      return;
+    }
+    
+    this.pendingBatches.push(batch);
+    if (this.pendingBatches.length > this.maxPendingBatches) {
+      this.pendingBatches.shift();
+      console.warn(`[${this.serviceName}] Dropped a batch waiting to be retried on a failed exporter`);
+    }
+  }
+
+  /**
+   * Send the batches kept in memory and in the offline buffer to the exporters they are pending on
+   * Stops at the first batch that fails everywhere so the rest keep their order.
+   */
+  private async replayPendingBatches(): Promise<void> {
+    const batches = this.pendingBatches.splice(0);
+    for (let index = 0; index < batches.length; index++) {
+      const failed = await this.sendBatch(batches[index]);
+      if (failed.length > 0 && failed.length === this.exportersFor(batches[index]).length) {
+        this.pendingBatches.unshift(...batches.slice(index));
+        break;
+      }
+      if (failed.length > 0) {
+        this.pendingBatches.push(this.pendingOn(batches[index], failed));
       }
     }
+    
+    await this.offlineBuffer?.replay(async batch => {
+      const failed = await this.sendBatch(batch);
+      if (failed.length > 0 && failed.length === this.exportersFor(batch).length) {
+        return false;
+      }
+      if (failed.length > 0) {
+        // Stored after the replay, since the buffer runs one operation at a time
+        void this.keepPendingBatch(this.pendingOn(batch, failed));
+      }
+      return true;
+    });
+  }
+
+  /**
+   * Run an export on several exporters in parallel
+   * Failures that cannot succeed on a retry (retryable: false) are dropped.
+   * @param exporters The exporters to run
+   * @param exportFn Export to run on each exporter
+   * @returns The exporters that failed and should be retried
+   */
+  private async runExporters(
+    exporters: LogExporter[],
+    exportFn: (exporter: LogExporter) => Promise<ExportResult>
+  ): Promise<LogExporter[]> {
+    const results = await Promise.all(exporters.map(async (exporter): Promise<ExportResult> => {
+      try {
+        return await exportFn(exporter);
+      } catch (error: any) {
+        console.error(`[${this.serviceName}] Exporter failed:`, error);
+        return { code: ExportResultCode.FAILED, error };
+      }
+    }));
+    
+    return exporters.filter((_, index) => results[index].code !== ExportResultCode.SUCCESS && results[index].retryable !== false);
   }
 }
 
@@ -0,0 +1,150 @@
+/**
+ * Log Processors
+ *
+ * Runs the processors registered on a logger and its parent contexts, in
+ * order, between a log call and the record being queued and printed.
+ */
+
+import { LogProcessor, LogProcessorContext, ProcessedLogRecord } from './types';
+
+/**
+ * Processor Registry
+ * Tracks the processor lists of every chain created from the same root, so
+ * they can be flushed and shut down together. Lists are held weakly: a list
+ * is only referenced by its chain, so the processors of discarded contexts
+ * (e.g. one per request) are released with them instead of piling up here.
+ */
+class ProcessorRegistry {
+  private lists = new Set<WeakRef<LogProcessor[]>>();
+  private finalizer = new FinalizationRegistry<WeakRef<LogProcessor[]>>(ref => this.lists.delete(ref));
+
+  /**
+   * Track a chain's processor list until the chain is garbage-collected
+   */
+  register(processors: LogProcessor[]): void {
+    const ref = new WeakRef(processors);
+    this.lists.add(ref);
+    this.finalizer.register(processors, ref);
+  }
+
+  /**
+   * Every processor of a chain that is still alive
+   */
+  processors(): LogProcessor[] {
+    return Array.from(this.lists, ref => ref.deref() ?? []).flat();
+  }
+}
+
+/**
+ * Processor Chain
+ * A context's chain runs its parent's processors first, then its own.
+ * Every chain created from the same root shares one registry, used to
+ * flush and shut down all processors together.
+ */
+export class ProcessorChain {
+  private parent?: ProcessorChain;
+  private processors: LogProcessor[] = [];
+  private registry: ProcessorRegistry;
+  private isRegistered = false;
+
+  /**
+   * Create a new root processor chain
+   * @param processors Processors applied to every record
+   */
+  constructor(processors: LogProcessor[] = []) {
+    this.registry = new ProcessorRegistry();
+    processors.forEach(processor => this.add(processor));
+  }
+
+  /**
+   * Create a chain for a child context, inheriting this chain's processors
+   */
+  child(): ProcessorChain {
+    const child = new ProcessorChain();
+    child.parent = this;
+    child.registry = this.registry;
+    return child;
+  }
+
+  /**
+   * Add a processor to the end of this chain
+   * It also applies to child contexts, including those created earlier.
+   * @param processor The processor to add
+   */
+  add(processor: LogProcessor): void {
+    this.processors.push(processor);
+    if (!this.isRegistered) {
+      this.registry.register(this.processors);
+      this.isRegistered = true;
+    }
+  }
+
+  /**
+   * Whether neither this chain nor its parents have processors
+   */
+  get isEmpty(): boolean {
+    return this.processors.length === 0 && (this.parent?.isEmpty ?? true);
+  }
+
+  /**
+   * Run a record through every processor
+   * A processor that throws is reported and skipped, keeping the record.
+   * @param record The record to process
+   * @param context Where the record was emitted
+   * @param serviceName Service name used to prefix diagnostics
+   * @returns The processed record, or undefined if a processor dropped it
+   */
+  process(record: ProcessedLogRecord, context: LogProcessorContext, serviceName: string): ProcessedLogRecord | undefined {
+    let current = record;
+    for (const processor of this.all()) {
+      try {
+        const result = processor.onEmit(current, context);
+        if (result === false) {
+          return undefined;
+        }
+        if (result) {
+          current = result;
+        }
+      } catch (error) {
+        console.error(`[${serviceName}] Log processor failed:`, error);
+      }
+    }
+    return current;
+  }
+
+  /**
+   * Call onFlush on every processor of the live chains created from the same root
+   * @param serviceName Service name used to prefix diagnostics
+   */
+  async flush(serviceName: string): Promise<void> {
+    await this.forEachProcessor(processor => processor.onFlush?.(), serviceName);
+  }
+
+  /**
+   * Call shutdown on every processor of the live chains created from the same root
+   * @param serviceName Service name used to prefix diagnostics
+   */
+  async shutdown(serviceName: string): Promise<void> {
+    await this.forEachProcessor(processor => processor.shutdown?.(), serviceName);
+  }
+
+  /**
+   * Run a lifecycle call on every registered processor, reporting failures
+   */
+  private async forEachProcessor(call: (processor: LogProcessor) => void | Promise<void>, serviceName: string): Promise<void> {
+    await Promise.all(this.registry.processors().map(async processor => {
+      try {
+        await call(processor);
+      } catch (error) {
+        console.error(`[${serviceName}] Log processor failed:`, error);
+      }
+    }));
+  }
+
+  /**
+   * Every processor that applies to this chain, parents first
+   */
+  private all(): LogProcessor[] {
+    return this.parent ? [...this.parent.all(), ...this.processors] : this.processors;
+  }
+}
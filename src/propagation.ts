@@ -0,0 +1,163 @@
+/**
+ * W3C Trace Context Propagation
+ *
+ * Parses and formats the `traceparent` and `tracestate` headers defined by
+ * https://www.w3.org/TR/trace-context/ so traces can continue across services.
+ */
+
+import { TraceContext, TraceContextHeaders } from './types';
+
+/**
+ * Version emitted in outgoing traceparent headers
+ */
+const TRACEPARENT_VERSION = '00';
+
+/**
+ * Length of a version 00 traceparent header
+ */
+const TRACEPARENT_LENGTH = 55;
+
+/**
+ * Maximum number of list members in a tracestate header
+ */
+const MAX_TRACESTATE_MEMBERS = 32;
+
+/**
+ * Sampled trace flag
+ */
+export const TRACE_FLAG_SAMPLED = 0x01;
+
+const TRACEPARENT_PATTERN = /^([0-9a-f]{2})-([0-9a-f]{32})-([0-9a-f]{16})-([0-9a-f]{2})$/;
+const TRACESTATE_KEY_PATTERN = /^(?:[a-z][a-z0-9_\-*/]{0,255}|[a-z0-9][a-z0-9_\-*/]{0,240}@[a-z][a-z0-9_\-*/]{0,13})$/;
+const TRACESTATE_VALUE_PATTERN = /^[\x20-\x2b\x2d-\x3c\x3e-\x7e]{0,255}[\x21-\x2b\x2d-\x3c\x3e-\x7e]$/;
+
+/**
+ * Parse a traceparent header
+ * Returns undefined for malformed headers, the reserved version ff and
+ * all-zero trace or parent IDs. Headers with a future version are parsed
+ * using the version 00 fields, ignoring anything appended after them.
+ * @param header The traceparent header value
+ * @returns The parsed trace context, or undefined if the header is invalid
+ */
+export function parseTraceparent(header: string | null | undefined): TraceContext | undefined {
+  if (typeof header !== 'string') {
+    return undefined;
+  }
+
+  const value = header.trim();
+  const version = value.substring(0, 2);
+
+  if (version === TRACEPARENT_VERSION) {
+    if (value.length !== TRACEPARENT_LENGTH) {
+      return undefined;
+    }
+  } else {
+    // Future versions may append fields, separated by a dash
+    if (value.length < TRACEPARENT_LENGTH) {
+      return undefined;
+    }
+    if (value.length > TRACEPARENT_LENGTH && value[TRACEPARENT_LENGTH] !== '-') {
+      return undefined;
+    }
+  }
+
+  const match = TRACEPARENT_PATTERN.exec(value.substring(0, TRACEPARENT_LENGTH));
+  if (!match) {
+    return undefined;
+  }
+
+  const [, parsedVersion, traceId, spanId, flags] = match;
+  if (parsedVersion === 'ff' || /^0+$/.test(traceId) || /^0+$/.test(spanId)) {
+    return undefined;
+  }
+
+  return {
+    traceId,
+    spanId,
+    traceFlags: parseInt(flags, 16),
+  };
+}
+
+/**
+ * Parse a tracestate header
+ * Drops malformed list members and keeps at most 32 members.
+ * Duplicate keys make the whole header invalid.
+ * @param header The tracestate header value
+ * @returns The normalized tracestate, or undefined if it is empty or invalid
+ */
+export function parseTracestate(header: string | null | undefined): string | undefined {
+  if (typeof header !== 'string') {
+    return undefined;
+  }
+
+  const keys = new Set<string>();
+  const members: string[] = [];
+
+  for (const rawMember of header.split(',')) {
+    const member = rawMember.trim();
+    if (!member) {
+      continue;
+    }
+
+    const separator = member.indexOf('=');
+    if (separator <= 0) {
+      continue;
+    }
+
+    const key = member.substring(0, separator);
+    const value = member.substring(separator + 1);
+    if (!TRACESTATE_KEY_PATTERN.test(key) || !TRACESTATE_VALUE_PATTERN.test(value)) {
+      continue;
+    }
+    if (keys.has(key)) {
+      return undefined;
+    }
+
+    keys.add(key);
+    members.push(`${key}=${value}`);
+  }
+
+  return members.length > 0 ? members.slice(0, MAX_TRACESTATE_MEMBERS).join(',') : undefined;
+}
+
+/**
+ * Extract a trace context from incoming traceparent/tracestate headers
+ * The tracestate header is ignored when the traceparent header is invalid.
+ * @param headers The incoming header values
+ * @returns The trace context, or undefined if there is no valid traceparent
+ */
+export function extractTraceContext(headers: TraceContextHeaders): TraceContext | undefined {
+  const traceContext = parseTraceparent(headers.traceparent);
+  if (!traceContext) {
+    return undefined;
+  }
+
+  const traceState = parseTracestate(headers.tracestate);
+  return traceState ? { ...traceContext, traceState } : traceContext;
+}
+
+/**
+ * Format a trace context as a version 00 traceparent header
+ * @param traceContext The trace context to format
+ * @returns The traceparent header value
+ */
+export function formatTraceparent(traceContext: TraceContext): string {
+  const flags = (traceContext.traceFlags & 0xff).toString(16).padStart(2, '0');
+  return `${TRACEPARENT_VERSION}-${traceContext.traceId}-${traceContext.spanId}-${flags}`;
+}
+
+/**
+ * Build outgoing traceparent/tracestate headers for a trace context
+ * @param traceContext The trace context to propagate
+ * @returns Header name/value pairs
+ */
+export function injectTraceContext(traceContext: TraceContext): Record<string, string> {
+  const headers: Record<string, string> = {
+    traceparent: formatTraceparent(traceContext),
+  };
+
+  if (traceContext.traceState) {
+    headers.tracestate = traceContext.traceState;
+  }
+  return headers;
+}
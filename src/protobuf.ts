@@ -0,0 +1,387 @@
+/**
+ * OTLP Protobuf Encoding
+ *
+ * Hand-written, zero-dependency encoder for the OTLP/HTTP protobuf payloads
+ * (ExportLogsServiceRequest and ExportTraceServiceRequest). Field numbers
+ * follow the opentelemetry-proto v1 definitions, and fields are written in
+ * field-number order with proto3 default values omitted. Export responses
+ * are decoded only as far as needed to read their partial success.
+ */
+
+import {
+  AnyValue,
+  KeyValue,
+  LogRecord,
+  SpanRecord,
+  Resource,
+  InstrumentationScope,
+  ExportLogsServiceRequest,
+  ExportTraceServiceRequest
+} from './types';
+
+/**
+ * Protobuf wire types
+ */
+const enum WireType {
+  VARINT = 0,
+  FIXED64 = 1,
+  LENGTH_DELIMITED = 2,
+}
+
+const textEncoder = new TextEncoder();
+
+/**
+ * Minimal protobuf writer
+ */
+class ProtoWriter {
+  private buffer: number[] = [];
+
+  /**
+   * Write a field tag
+   */
+  private tag(field: number, wireType: WireType): void {
+    this.varint((field << 3) | wireType);
+  }
+
+  /**
+   * Write an unsigned varint
+   */
+  private varint(value: number | bigint): void {
+    let remaining = BigInt(value);
+    while (remaining > BigInt(0x7f)) {
+      this.buffer.push(Number(remaining & BigInt(0x7f)) | 0x80);
+      remaining >>= BigInt(7);
+    }
+    this.buffer.push(Number(remaining));
+  }
+
+  /**
+   * Write length-delimited raw bytes
+   */
+  private lengthDelimited(field: number, data: Uint8Array | number[]): void {
+    this.tag(field, WireType.LENGTH_DELIMITED);
+    this.varint(data.length);
+    for (let i = 0; i < data.length; i++) {
+      this.buffer.push(data[i]);
+    }
+  }
+
+  /**
+   * Write a uint32 or enum field, omitting zero
+   */
+  uint32(field: number, value: number | undefined): void {
+    if (value) {
+      this.tag(field, WireType.VARINT);
+      this.varint(value >>> 0);
+    }
+  }
+
+  /**
+   * Write an int64 field from a decimal string or number
+   * Negative values are encoded as 64-bit two's complement
+   */
+  int64(field: number, value: string | number): void {
+    this.tag(field, WireType.VARINT);
+    this.varint(BigInt.asUintN(64, BigInt(value)));
+  }
+
+  /**
+   * Write a bool field
+   */
+  bool(field: number, value: boolean): void {
+    this.tag(field, WireType.VARINT);
+    this.varint(value ? 1 : 0);
+  }
+
+  /**
+   * Write a double field
+   */
+  double(field: number, value: number): void {
+    this.tag(field, WireType.FIXED64);
+    const view = new DataView(new ArrayBuffer(8));
+    view.setFloat64(0, value, true);
+    for (let i = 0; i < 8; i++) {
+      this.buffer.push(view.getUint8(i));
+    }
+  }
+
+  /**
+   * Write a fixed64 field from a decimal string, omitting zero
+   */
+  fixed64(field: number, value: string | undefined): void {
+    if (!value) {
+      return;
+    }
+    let remaining = BigInt.asUintN(64, BigInt(value));
+    if (remaining === BigInt(0)) {
+      return;
+    }
+    this.tag(field, WireType.FIXED64);
+    for (let i = 0; i < 8; i++) {
+      this.buffer.push(Number(remaining & BigInt(0xff)));
+      remaining >>= BigInt(8);
+    }
+  }
+
+  /**
+   * Write a string field
+   * @param always Write the field even when empty (used for oneof members)
+   */
+  string(field: number, value: string | undefined, always: boolean = false): void {
+    if (value || (always && value !== undefined)) {
+      this.lengthDelimited(field, textEncoder.encode(value));
+    }
+  }
+
+  /**
+   * Write a bytes field
+   * @param always Write the field even when empty (used for oneof members)
+   */
+  bytes(field: number, value: Uint8Array, always: boolean = false): void {
+    if (value.length > 0 || always) {
+      this.lengthDelimited(field, value);
+    }
+  }
+
+  /**
+   * Write an embedded message field
+   */
+  message(field: number, encode: (writer: ProtoWriter) => void): void {
+    const nested = new ProtoWriter();
+    encode(nested);
+    this.lengthDelimited(field, nested.buffer);
+  }
+
+  /**
+   * Get the encoded bytes
+   */
+  finish(): Uint8Array {
+    return Uint8Array.from(this.buffer);
+  }
+}
+
+/**
+ * Convert a hex string to bytes
+ */
+function hexToBytes(hex: string | undefined): Uint8Array {
+  if (!hex) {
+    return new Uint8Array(0);
+  }
+  const bytes = new Uint8Array(hex.length / 2);
+  for (let i = 0; i < bytes.length; i++) {
+    bytes[i] = parseInt(hex.substring(i * 2, i * 2 + 2), 16);
+  }
+  return bytes;
+}
+
+/**
+ * Convert a base64 string to bytes
+ */
+function base64ToBytes(base64: string): Uint8Array {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+  return bytes;
+}
+
+/**
+ * opentelemetry.proto.common.v1.AnyValue
+ */
+function writeAnyValue(writer: ProtoWriter, value: AnyValue): void {
+  if (value.stringValue !== undefined) {
+    writer.string(1, value.stringValue, true);
+  } else if (value.boolValue !== undefined) {
+    writer.bool(2, value.boolValue);
+  } else if (value.intValue !== undefined) {
+    writer.int64(3, value.intValue);
+  } else if (value.doubleValue !== undefined) {
+    writer.double(4, value.doubleValue);
+  } else if (value.arrayValue !== undefined) {
+    const values = value.arrayValue.values;
+    writer.message(5, array => values.forEach(item => array.message(1, w => writeAnyValue(w, item))));
+  } else if (value.kvlistValue !== undefined) {
+    const values = value.kvlistValue.values;
+    writer.message(6, kvlist => writeKeyValues(kvlist, 1, values));
+  } else if (value.bytesValue !== undefined) {
+    writer.bytes(7, base64ToBytes(value.bytesValue), true);
+  }
+}
+
+/**
+ * Repeated opentelemetry.proto.common.v1.KeyValue
+ */
+function writeKeyValues(writer: ProtoWriter, field: number, values: KeyValue[] | undefined): void {
+  values?.forEach(kv => writer.message(field, w => {
+    w.string(1, kv.key);
+    w.message(2, value => writeAnyValue(value, kv.value));
+  }));
+}
+
+/**
+ * opentelemetry.proto.resource.v1.Resource
+ */
+function writeResource(writer: ProtoWriter, resource: Resource): void {
+  writeKeyValues(writer, 1, resource.attributes);
+}
+
+/**
+ * opentelemetry.proto.common.v1.InstrumentationScope
+ */
+function writeScope(writer: ProtoWriter, scope: InstrumentationScope): void {
+  writer.string(1, scope.name);
+  writer.string(2, scope.version);
+  writeKeyValues(writer, 3, scope.attributes);
+}
+
+/**
+ * opentelemetry.proto.logs.v1.LogRecord
+ */
+function writeLogRecord(writer: ProtoWriter, record: LogRecord): void {
+  writer.fixed64(1, record.timestamp);
+  writer.uint32(2, record.severityNumber);
+  writer.string(3, record.severityText);
+  writer.message(5, body => writeAnyValue(body, record.body));
+  writeKeyValues(writer, 6, record.attributes);
+  writer.bytes(9, hexToBytes(record.traceId));
+  writer.bytes(10, hexToBytes(record.spanId));
+  writer.fixed64(11, record.observedTimestamp);
+}
+
+/**
+ * opentelemetry.proto.trace.v1.Span
+ */
+function writeSpan(writer: ProtoWriter, span: SpanRecord): void {
+  writer.bytes(1, hexToBytes(span.traceId));
+  writer.bytes(2, hexToBytes(span.spanId));
+  writer.bytes(4, hexToBytes(span.parentSpanId));
+  writer.string(5, span.name);
+  writer.uint32(6, span.kind);
+  writer.fixed64(7, span.startTimeUnixNano);
+  writer.fixed64(8, span.endTimeUnixNano);
+  writeKeyValues(writer, 9, span.attributes);
+  span.events.forEach(event => writer.message(11, w => {
+    w.fixed64(1, event.timeUnixNano);
+    w.string(2, event.name);
+    writeKeyValues(w, 3, event.attributes);
+  }));
+  writer.message(15, status => {
+    status.string(2, span.status.message);
+    status.uint32(3, span.status.code);
+  });
+}
+
+/**
+ * Encode an ExportLogsServiceRequest as protobuf
+ * @param request The OTLP logs request in its JSON form
+ * @returns The protobuf-encoded request
+ */
+export function encodeExportLogsServiceRequest(request: ExportLogsServiceRequest): Uint8Array {
+  const writer = new ProtoWriter();
+  request.resourceLogs.forEach(resourceLogs => writer.message(1, rl => {
+    rl.message(1, resource => writeResource(resource, resourceLogs.resource));
+    resourceLogs.scopeLogs.forEach(scopeLogs => rl.message(2, sl => {
+      if (scopeLogs.scope) {
+        const scope = scopeLogs.scope;
+        sl.message(1, w => writeScope(w, scope));
+      }
+      scopeLogs.logRecords.forEach(record => sl.message(2, w => writeLogRecord(w, record)));
+    }));
+  }));
+  return writer.finish();
+}
+
+/**
+ * Encode an ExportTraceServiceRequest as protobuf
+ * @param request The OTLP traces request in its JSON form
+ * @returns The protobuf-encoded request
+ */
+export function encodeExportTraceServiceRequest(request: ExportTraceServiceRequest): Uint8Array {
+  const writer = new ProtoWriter();
+  request.resourceSpans.forEach(resourceSpans => writer.message(1, rs => {
+    rs.message(1, resource => writeResource(resource, resourceSpans.resource));
+    resourceSpans.scopeSpans.forEach(scopeSpans => rs.message(2, ss => {
+      if (scopeSpans.scope) {
+        const scope = scopeSpans.scope;
+        ss.message(1, w => writeScope(w, scope));
+      }
+      scopeSpans.spans.forEach(span => ss.message(2, w => writeSpan(w, span)));
+    }));
+  }));
+  return writer.finish();
+}
+
+/**
+ * Iterate over the top-level fields of a protobuf message
+ * Unknown wire types stop the iteration.
+ * @param bytes The encoded message
+ * @param onField Called with each field number and its varint value or length-delimited bytes
+ */
+function readFields(bytes: Uint8Array, onField: (field: number, value: number | Uint8Array) => void): void {
+  let offset = 0;
+
+  const readVarint = (): number => {
+    let result = 0;
+    let multiplier = 1;
+    while (offset < bytes.length) {
+      const byte = bytes[offset++];
+      result += (byte & 0x7f) * multiplier;
+      if ((byte & 0x80) === 0) {
+        break;
+      }
+      multiplier *= 128;
+    }
+    return result;
+  };
+
+  while (offset < bytes.length) {
+    const tag = readVarint();
+    const field = Math.floor(tag / 8);
+    switch (tag & 0x7) {
+      case WireType.VARINT:
+        onField(field, readVarint());
+        break;
+      case WireType.FIXED64:
+        offset += 8;
+        break;
+      case WireType.LENGTH_DELIMITED: {
+        const length = readVarint();
+        onField(field, bytes.subarray(offset, offset + length));
+        offset += length;
+        break;
+      }
+      case 5: // FIXED32
+        offset += 4;
+        break;
+      default:
+        return;
+    }
+  }
+}
+
+/**
+ * Decode the partial success of an ExportLogsServiceResponse or ExportTraceServiceResponse
+ * Both messages carry partial_success (field 1) with the rejected count (field 1)
+ * and an error message (field 2).
+ * @param bytes The encoded response
+ * @returns The number of rejected records and the error message, if any
+ */
+export function decodeExportPartialSuccess(bytes: Uint8Array): { rejected: number; errorMessage?: string } {
+  const result: { rejected: number; errorMessage?: string } = { rejected: 0 };
+
+  readFields(bytes, (field, value) => {
+    if (field !== 1 || typeof value === 'number') {
+      return;
+    }
+    readFields(value, (partialField, partialValue) => {
+      if (partialField === 1 && typeof partialValue === 'number') {
+        result.rejected = partialValue;
+      } else if (partialField === 2 && typeof partialValue !== 'number') {
+        result.errorMessage = new TextDecoder().decode(partialValue);
+      }
+    });
+  });
+
+  return result;
+}
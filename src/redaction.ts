@@ -0,0 +1,292 @@
+/**
+ * Attribute Redaction
+ *
+ * Masks, hashes or drops sensitive attributes before records are queued
+ * or printed, matching them by key (e.g. `password`, `user.*.ssn`) or by
+ * value (emails, credit card numbers, JWTs).
+ */
+
+import { hmacSha256 } from './hash';
+import { RedactionAction, RedactionConfig, RedactionPattern, RedactionRule } from './types';
+
+/**
+ * Default replacement for masked values
+ */
+export const DEFAULT_REDACTION_MASK = '[REDACTED]';
+
+/**
+ * Rules used when redaction is enabled without explicit rules
+ */
+export const DEFAULT_REDACTION_RULES: RedactionRule[] = [
+  { key: 'password' },
+  { key: 'secret' },
+  { key: 'token' },
+  { key: 'accessToken' },
+  { key: 'refreshToken' },
+  { key: 'apiKey' },
+  { key: 'authorization' },
+  { key: 'cookie' },
+  { pattern: 'email' },
+  { pattern: 'creditCard' },
+  { pattern: 'jwt' },
+];
+
+/**
+ * Marker for values removed by a 'drop' rule
+ */
+const DROP = Symbol('drop');
+
+/**
+ * Check a card number candidate with the Luhn checksum, so IDs and
+ * timestamps that merely look like card numbers are left alone
+ */
+function passesLuhn(candidate: string): boolean {
+  const digits = candidate.replace(/\D/g, '');
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) {
+        digit -= 9;
+      }
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Built-in value patterns, with an optional check applied to each match
+ */
+const BUILT_IN_PATTERNS: Record<RedactionPattern, { regex: RegExp; validate?: (match: string) => boolean }> = {
+  email: { regex: /[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g },
+  creditCard: { regex: /\b(?:\d[ -]?){12,18}\d\b/g, validate: passesLuhn },
+  jwt: { regex: /\beyJ[A-Za-z0-9_-]*\.[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g },
+};
+
+/**
+ * A key rule, matching either a key name at any depth or a full path
+ */
+interface KeyRule {
+  name?: string;
+  path?: string[];
+  action: RedactionAction;
+}
+
+/**
+ * A value rule, matching substrings of string values
+ */
+interface PatternRule {
+  regex: RegExp;
+  validate?: (match: string) => boolean;
+  action: RedactionAction;
+}
+
+/**
+ * Check whether a value is an object the attribute encoder walks into: any
+ * object except dates and bytes, which are exported as a single value
+ */
+function isWalkedObject(value: unknown): value is object {
+  return typeof value === 'object' && value !== null
+    && !(value instanceof Date) && !(value instanceof Uint8Array) && !(value instanceof ArrayBuffer);
+}
+
+/**
+ * Redactor
+ * Applies redaction rules to attribute objects without modifying them
+ */
+export class Redactor {
+  private keyRules: KeyRule[] = [];
+  private patternRules: PatternRule[] = [];
+  private mask: string;
+  private hashKey?: string;
+
+  /**
+   * Create a new redactor
+   * @param config Redaction rules, default action, mask and hash key
+   * @throws If a rule hashes values but no hashKey is set
+   */
+  constructor(config: RedactionConfig = {}) {
+    const defaultAction = config.action ?? 'mask';
+    this.mask = config.mask ?? DEFAULT_REDACTION_MASK;
+    this.hashKey = config.hashKey;
+
+    for (const rule of config.rules ?? DEFAULT_REDACTION_RULES) {
+      const action = rule.action ?? defaultAction;
+      if (rule.key) {
+        const segments = rule.key.toLowerCase().split('.');
+        this.keyRules.push(segments.length > 1 ? { path: segments, action } : { name: segments[0], action });
+      }
+      if (rule.pattern) {
+        this.patternRules.push(this.compilePattern(rule.pattern, action));
+      }
+      if (action === 'hash' && !this.hashKey) {
+        // Without a secret key, emails, card numbers and the like are easily brute-forced back from their hashes
+        throw new Error('Redaction rules with the hash action need a hashKey');
+      }
+    }
+  }
+
+  /**
+   * Redact an attributes object
+   * @param attributes The attributes to redact
+   * @returns A redacted copy, or the attributes themselves if undefined
+   */
+  redact(attributes?: Record<string, any>): Record<string, any> | undefined {
+    if (!attributes) {
+      return attributes;
+    }
+    return this.redactEntries(attributes, Object.entries(attributes), [], new WeakMap());
+  }
+
+  /**
+   * Redact pattern matches in a string
+   * @param value The string to redact
+   * @returns The redacted string, or DROP if a matching rule drops the value
+   */
+  private redactString(value: string): string | typeof DROP {
+    let result = value;
+    for (const rule of this.patternRules) {
+      let matched = false;
+      result = result.replace(rule.regex, match => {
+        if (rule.validate && !rule.validate(match)) {
+          return match;
+        }
+        matched = true;
+        return rule.action === 'hash' ? this.hash(match) : this.mask;
+      });
+      if (matched && rule.action === 'drop') {
+        return DROP;
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Redact a value found at a path
+   */
+  private redactValue(value: unknown, path: string[], seen: WeakMap<object, unknown>): unknown {
+    const keyRule = this.matchKey(path);
+    if (keyRule) {
+      return this.apply(keyRule.action, value);
+    }
+
+    if (typeof value === 'string') {
+      return this.redactString(value);
+    }
+
+    // Arrays and Sets become arrays, like in the encoder
+    if (Array.isArray(value) || value instanceof Set) {
+      if (seen.has(value)) {
+        return seen.get(value);
+      }
+      const copy: unknown[] = [];
+      seen.set(value, copy);
+      Array.from(value as Iterable<unknown>).forEach((item, index) => {
+        const redacted = this.redactValue(item, [...path, String(index)], seen);
+        if (redacted !== DROP) {
+          copy.push(redacted);
+        }
+      });
+      return copy;
+    }
+
+    // Maps and other objects (class instances included) become plain objects of their entries
+    if (value instanceof Map) {
+      return this.redactEntries(value, Array.from(value, ([key, item]) => [String(key), item]), path, seen);
+    }
+    if (isWalkedObject(value)) {
+      return this.redactEntries(value, Object.entries(value), path, seen);
+    }
+    return value;
+  }
+
+  /**
+   * Redact the entries of an object into a plain object
+   * Self-references point to the redacted copy, so the original values never leak.
+   */
+  private redactEntries(
+    value: object,
+    entries: [string, unknown][],
+    path: string[],
+    seen: WeakMap<object, unknown>
+  ): Record<string, any> {
+    if (seen.has(value)) {
+      return seen.get(value) as Record<string, any>;
+    }
+
+    const copy: Record<string, any> = {};
+    seen.set(value, copy);
+    for (const [key, item] of entries) {
+      const redacted = this.redactValue(item, [...path, key], seen);
+      if (redacted !== DROP) {
+        copy[key] = redacted;
+      }
+    }
+    return copy;
+  }
+
+  /**
+   * Find the key rule matching a path, if any
+   * Dotted keys are split into segments, so semantic-convention keys such as
+   * 'http.request.header.authorization' match the same rules as nested ones.
+   */
+  private matchKey(path: string[]): KeyRule | undefined {
+    if (path.length === 0 || this.keyRules.length === 0) {
+      return undefined;
+    }
+
+    const segments = path.flatMap(segment => segment.toLowerCase().split('.'));
+    return this.keyRules.find(rule => {
+      if (rule.name) {
+        return segments[segments.length - 1] === rule.name;
+      }
+      return rule.path!.length === segments.length
+        && rule.path!.every((segment, i) => segment === '*' || segment === segments[i]);
+    });
+  }
+
+  /**
+   * Apply an action to a whole value
+   */
+  private apply(action: RedactionAction, value: unknown): unknown {
+    switch (action) {
+      case 'drop':
+        return DROP;
+      case 'hash':
+        return this.hash(value);
+      default:
+        return this.mask;
+    }
+  }
+
+  /**
+   * Hash a value with truncated HMAC-SHA-256 under the hash key, so equal values still correlate
+   */
+  private hash(value: unknown): string {
+    let text: string;
+    try {
+      text = typeof value === 'string' ? value : JSON.stringify(value) ?? String(value);
+    } catch {
+      text = String(value);
+    }
+    return `hmac-sha256:${hmacSha256(this.hashKey!, text).substring(0, 16)}`;
+  }
+
+  /**
+   * Compile a value pattern into a global regular expression
+   */
+  private compilePattern(pattern: RegExp | RedactionPattern, action: RedactionAction): PatternRule {
+    if (typeof pattern === 'string') {
+      const builtIn = BUILT_IN_PATTERNS[pattern];
+      if (!builtIn) {
+        throw new Error(`Unknown redaction pattern: ${pattern}`);
+      }
+      return { ...builtIn, action };
+    }
+
+    const flags = pattern.flags.includes('g') ? pattern.flags : `${pattern.flags}g`;
+    return { regex: new RegExp(pattern.source, flags), action };
+  }
+}
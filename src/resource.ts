@@ -0,0 +1,80 @@
+/**
+ * Resource Detection
+ *
+ * Detectors return resource attributes describing where the logger runs.
+ * The built-in runtime detector recognizes Node.js, Bun, Deno and browsers.
+ */
+
+import { ResourceDetector } from './types';
+
+/**
+ * Name reported as telemetry.sdk.name
+ */
+export const SDK_NAME = 'otel-http-logger';
+
+/**
+ * Detect the JavaScript runtime (process.runtime.* and telemetry.sdk.* attributes)
+ * @returns Runtime resource attributes, or an empty object for unknown runtimes
+ */
+export const detectRuntime: ResourceDetector = () => {
+  const globals = globalThis as any;
+
+  if (globals.Deno?.version) {
+    return {
+      'process.runtime.name': 'deno',
+      'process.runtime.version': globals.Deno.version.deno,
+      'process.pid': globals.Deno.pid,
+      'telemetry.sdk.name': SDK_NAME,
+      'telemetry.sdk.language': 'nodejs',
+    };
+  }
+
+  if (typeof process !== 'undefined' && process.versions) {
+    // Bun also provides process.versions.node, so check for it first
+    const isBun = typeof process.versions.bun === 'string';
+    const version = isBun ? process.versions.bun : process.versions.node;
+    if (version) {
+      return {
+        'process.runtime.name': isBun ? 'bun' : 'nodejs',
+        'process.runtime.version': version,
+        'process.pid': process.pid,
+        'telemetry.sdk.name': SDK_NAME,
+        'telemetry.sdk.language': 'nodejs',
+      };
+    }
+  }
+
+  if (typeof navigator !== 'undefined' && typeof navigator.userAgent === 'string') {
+    return {
+      'process.runtime.name': 'browser',
+      'user_agent.original': navigator.userAgent,
+      'telemetry.sdk.name': SDK_NAME,
+      'telemetry.sdk.language': 'webjs',
+    };
+  }
+
+  return {};
+};
+
+/**
+ * Default detectors used when none are configured
+ */
+export const DEFAULT_RESOURCE_DETECTORS: ResourceDetector[] = [detectRuntime];
+
+/**
+ * Run resource detectors and merge their attributes
+ * Later detectors win; detectors that throw are skipped.
+ * @param detectors The detectors to run
+ * @returns The merged resource attributes
+ */
+export function detectResource(detectors: ResourceDetector[]): Record<string, any> {
+  const attributes: Record<string, any> = {};
+  for (const detector of detectors) {
+    try {
+      Object.assign(attributes, detector());
+    } catch (error) {
+      console.warn('Resource detector failed:', error);
+    }
+  }
+  return attributes;
+}
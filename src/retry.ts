@@ -0,0 +1,68 @@
+/**
+ * Export Retry Policy
+ *
+ * Classifies failed exports and computes retry delays using exponential
+ * backoff with full jitter, honoring Retry-After when the server sends it.
+ */
+
+import { RetryConfig } from './types';
+
+/**
+ * Default retry policy
+ */
+export const DEFAULT_RETRY_CONFIG: Required<RetryConfig> = {
+  maxRetries: 3,
+  initialBackoffMillis: 1000,
+  maxBackoffMillis: 30000,
+  backoffMultiplier: 2,
+  maxRetryTimeMillis: 60000,
+};
+
+/**
+ * HTTP status codes worth retrying, as defined by the OTLP specification
+ */
+const RETRYABLE_STATUS_CODES = [429, 502, 503, 504];
+
+/**
+ * Check whether an HTTP status code is worth retrying
+ * @param status The response status code
+ */
+export function isRetryableStatus(status: number): boolean {
+  return RETRYABLE_STATUS_CODES.includes(status);
+}
+
+/**
+ * Compute the delay before a retry: a random value between zero and the
+ * exponentially growing backoff bound ("full jitter")
+ * @param retry The retry number, starting at 1
+ * @param config The retry policy
+ * @param random Random number source in [0, 1) (default: Math.random)
+ * @returns The delay in milliseconds
+ */
+export function computeBackoff(retry: number, config: Required<RetryConfig>, random: () => number = Math.random): number {
+  const bound = Math.min(
+    config.maxBackoffMillis,
+    config.initialBackoffMillis * Math.pow(config.backoffMultiplier, retry - 1)
+  );
+  return Math.floor(random() * bound);
+}
+
+/**
+ * Parse a Retry-After header value
+ * @param value Delay in seconds or an HTTP date
+ * @param now Current time in milliseconds (default: Date.now())
+ * @returns The delay in milliseconds, or undefined if the value is missing or invalid
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+  if (!value) {
+    return undefined;
+  }
+
+  const trimmed = value.trim();
+  if (/^\d+$/.test(trimmed)) {
+    return parseInt(trimmed, 10) * 1000;
+  }
+
+  const date = Date.parse(trimmed);
+  return isNaN(date) ? undefined : Math.max(0, date - now);
+}
@@ -0,0 +1,105 @@
+/**
+ * Shutdown Hooks
+ *
+ * Flushes records when the process exits (Node.js, Bun) or the page is
+ * hidden or unloaded (browsers), so they are not lost when the user forgets
+ * to call flush() or shutdown().
+ */
+
+/**
+ * Callbacks invoked by the shutdown hooks
+ */
+export interface ShutdownHandlers {
+  /** Export queued records and stop accepting new ones */
+  shutdown(): Promise<void>;
+
+  /** Synchronously send queued records in a way that outlives the page */
+  flushOnUnload(): void;
+}
+
+/**
+ * Process signals that trigger a shutdown
+ */
+const SHUTDOWN_SIGNALS = ['SIGTERM', 'SIGINT'] as const;
+
+/**
+ * Check whether we are running in a browser (or another runtime with a DOM)
+ */
+function isBrowser(): boolean {
+  return typeof window !== 'undefined'
+    && typeof document !== 'undefined'
+    && typeof window.addEventListener === 'function';
+}
+
+/**
+ * Check whether process events are available (Node.js, Bun, Deno's Node compatibility)
+ */
+function hasProcessEvents(): boolean {
+  return typeof process !== 'undefined' && typeof process.on === 'function';
+}
+
+/**
+ * Register pagehide/visibilitychange listeners that flush on unload
+ */
+function registerBrowserHooks(handlers: ShutdownHandlers): () => void {
+  const onPageHide = () => handlers.flushOnUnload();
+  const onVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') {
+      handlers.flushOnUnload();
+    }
+  };
+
+  window.addEventListener('pagehide', onPageHide);
+  document.addEventListener('visibilitychange', onVisibilityChange);
+
+  return () => {
+    window.removeEventListener('pagehide', onPageHide);
+    document.removeEventListener('visibilitychange', onVisibilityChange);
+  };
+}
+
+/**
+ * Register beforeExit/SIGTERM/SIGINT listeners that shut down
+ * After a signal, the signal is raised again once shutdown completes so the
+ * process still exits, unless other listeners have taken over handling it.
+ */
+function registerProcessHooks(handlers: ShutdownHandlers): () => void {
+  const onBeforeExit = () => {
+    unregister();
+    void handlers.shutdown();
+  };
+
+  const onSignal = (signal: NodeJS.Signals) => {
+    unregister();
+    handlers.shutdown().finally(() => {
+      if (process.listenerCount(signal) === 0) {
+        process.kill(process.pid, signal);
+      }
+    });
+  };
+
+  const unregister = () => {
+    process.removeListener('beforeExit', onBeforeExit);
+    SHUTDOWN_SIGNALS.forEach(signal => process.removeListener(signal, onSignal));
+  };
+
+  process.on('beforeExit', onBeforeExit);
+  SHUTDOWN_SIGNALS.forEach(signal => process.on(signal, onSignal));
+
+  return unregister;
+}
+
+/**
+ * Register the shutdown hooks for the current runtime
+ * @param handlers Callbacks invoked by the hooks
+ * @returns Function that removes the hooks
+ */
+export function registerShutdownHooks(handlers: ShutdownHandlers): () => void {
+  if (isBrowser()) {
+    return registerBrowserHooks(handlers);
+  }
+  if (hasProcessEvents()) {
+    return registerProcessHooks(handlers);
+  }
+  return () => {};
+}
@@ -0,0 +1,181 @@
+/**
+ * Span Implementation
+ *
+ * A minimal span with start/end times, attributes, events and status.
+ * Ended spans are handed to a callback, which the logger uses to queue
+ * them on the OpenTelemetry backend for export.
+ */
+
+import { generateSpanId } from './otel';
+import { SpanStatusCode } from './types';
+import { serializeError } from './errors';
+
+/**
+ * Get the current time in nanoseconds since the epoch
+ */
+function currentTimeNanos(): number {
+  return Date.now() * 1000000;
+}
+
+/**
+ * Event recorded on a span
+ */
+export interface SpanEvent {
+  name: string;
+  timeUnixNano: number;
+  attributes: Record<string, any>;
+}
+
+/**
+ * Options for creating a span
+ */
+export interface SpanInit {
+  /** Trace the span belongs to */
+  traceId: string;
+
+  /** ID of the parent span, if any */
+  parentSpanId?: string;
+
+  /** Initial span attributes */
+  attributes?: Record<string, any>;
+}
+
+/**
+ * Span
+ * Records a timed operation until end() is called
+ */
+export class Span {
+  readonly name: string;
+  readonly traceId: string;
+  readonly spanId: string;
+  readonly parentSpanId?: string;
+  readonly startTimeUnixNano: number;
+  private endTime?: number;
+  private attributes: Record<string, any>;
+  private events: SpanEvent[] = [];
+  private statusCode = SpanStatusCode.UNSET;
+  private statusMessage?: string;
+  private onEnd?: (span: Span) => void;
+
+  /**
+   * Create and start a new span
+   * @param name Span name
+   * @param init Trace, parent and attribute options
+   * @param onEnd Optional callback invoked once the span ends
+   */
+  constructor(name: string, init: SpanInit, onEnd?: (span: Span) => void) {
+    this.name = name;
+    this.traceId = init.traceId;
+    this.spanId = generateSpanId();
+    this.parentSpanId = init.parentSpanId;
+    this.attributes = { ...init.attributes };
+    this.startTimeUnixNano = currentTimeNanos();
+    this.onEnd = onEnd;
+  }
+
+  /**
+   * End time in nanoseconds, or undefined while the span is recording
+   */
+  get endTimeUnixNano(): number | undefined {
+    return this.endTime;
+  }
+
+  /**
+   * Status of the span
+   */
+  get status(): { code: SpanStatusCode; message?: string } {
+    return { code: this.statusCode, message: this.statusMessage };
+  }
+
+  /**
+   * Whether the span is still recording (has not ended)
+   */
+  isRecording(): boolean {
+    return this.endTime === undefined;
+  }
+
+  /**
+   * Get a copy of the span attributes
+   */
+  getAttributes(): Record<string, any> {
+    return { ...this.attributes };
+  }
+
+  /**
+   * Get the events recorded on the span
+   */
+  getEvents(): SpanEvent[] {
+    return [...this.events];
+  }
+
+  /**
+   * Set a single attribute
+   * @param key Attribute key
+   * @param value Attribute value
+   */
+  setAttribute(key: string, value: any): this {
+    if (this.isRecording()) {
+      this.attributes[key] = value;
+    }
+    return this;
+  }
+
+  /**
+   * Set several attributes at once
+   * @param attributes Attributes to merge into the span
+   */
+  setAttributes(attributes: Record<string, any>): this {
+    if (this.isRecording()) {
+      Object.assign(this.attributes, attributes);
+    }
+    return this;
+  }
+
+  /**
+   * Record an event on the span
+   * @param name Event name
+   * @param attributes Optional event attributes
+   */
+  addEvent(name: string, attributes?: Record<string, any>): this {
+    if (this.isRecording()) {
+      this.events.push({ name, timeUnixNano: currentTimeNanos(), attributes: { ...attributes } });
+    }
+    return this;
+  }
+
+  /**
+   * Record an exception as an 'exception' event
+   * @param error The error or other thrown value to record
+   * @param maxDepth Number of nested causes and aggregated errors to record (default: 3)
+   */
+  recordException(error: unknown, maxDepth?: number): this {
+    return this.addEvent('exception', serializeError(error, maxDepth));
+  }
+
+  /**
+   * Set the span status
+   * @param code Status code
+   * @param message Optional description, only kept for ERROR statuses
+   */
+  setStatus(code: SpanStatusCode, message?: string): this {
+    if (this.isRecording()) {
+      this.statusCode = code;
+      this.statusMessage = code === SpanStatusCode.ERROR ? message : undefined;
+    }
+    return this;
+  }
+
+  /**
+   * End the span
+   * Calling end() more than once has no effect
+   */
+  end(): void {
+    if (!this.isRecording()) {
+      return;
+    }
+
+    // Guarantee a non-negative duration even if the clock went backwards
+    this.endTime = Math.max(currentTimeNanos(), this.startTimeUnixNano);
+    this.onEnd?.(this);
+  }
+}
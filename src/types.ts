@@ -2,10 +2,50 @@
  * Type definitions for otel-http-logger
  */
 
+import type { Span } from './span';
+
+/**
+ * Policy for choosing which records to drop when the queue is full
+ * - 'newest': drop incoming records
+ * - 'oldest': drop the oldest queued records
+ * - 'lowest-severity': drop the least severe records first, oldest first among equals
+ */
+export type DropPolicy = 'newest' | 'oldest' | 'lowest-severity';
+
+/**
+ * Batching configuration
+ */
+export interface BatchConfig {
+  /** Maximum number of records sent in a single export (default: 512) */
+  maxExportBatchSize?: number;
+  
+  /** Delay in milliseconds between automatic flushes, 0 disables the timer (default: 1000) */
+  scheduledDelayMillis?: number;
+  
+  /** Maximum number of records held in memory before records are dropped (default: 2048) */
+  maxQueueSize?: number;
+  
+  /** Which records to drop when the queue is full (default: 'newest') */
+  dropPolicy?: DropPolicy;
+  
+  /** Maximum number of batches exported at the same time (default: 1) */
+  maxConcurrentExports?: number;
+}
+
+/**
+ * OTLP/HTTP encoding used for export requests
+ */
+export type OtlpProtocol = 'http/json' | 'http/protobuf';
+
+/**
+ * Compression applied to export requests
+ */
+export type CompressionAlgorithm = 'gzip' | 'none';
+
 /**
  * OpenTelemetry configuration
  */
-export interface OtelConfig {
+export interface OtelConfig extends BatchConfig {
   /** OTLP HTTP collector endpoint URL */
   endpoint: string;
   
@@ -17,12 +57,327 @@ export interface OtelConfig {
   
   /** Environment name (e.g., 'production', 'staging') */
   environment: string;
+  
+  /** Additional OTLP resource attributes (e.g., 'service.version') */
+  resourceAttributes?: Record<string, any>;
+  
+  /** Detectors whose attributes are added to the resource (default: runtime detection; [] disables) */
+  resourceDetectors?: ResourceDetector[];
+  
+  /** Instrumentation scope name for the root logger; context loggers use their context prefix (default: serviceName) */
+  scopeName?: string;
+  
+  /** Instrumentation scope version reported by every logger */
+  scopeVersion?: string;
+  
+  /** Encoding for export requests (default: 'http/json') */
+  protocol?: OtlpProtocol;
+  
+  /** Compression for export requests, falls back to 'none' when unsupported (default: 'none') */
+  compression?: CompressionAlgorithm;
+  
+  /** OTLP HTTP traces endpoint URL (default: endpoint with /v1/logs replaced by /v1/traces) */
+  tracesEndpoint?: string;
+  
+  /** Maximum nesting depth when encoding attribute values (default: 8) */
+  maxAttributeDepth?: number;
+  
+  /** Retry policy for failed exports */
+  retry?: RetryConfig;
+  
+  /** Time in milliseconds before an export request is aborted (default: 10000) */
+  timeoutMillis?: number;
+  
+  /** Exporters that receive each batch (default: an OtlpHttpExporter for this config) */
+  exporters?: LogExporter[];
+  
+  /** Keep batches that fail to export in durable storage and replay them later (default: false) */
+  offlineBuffer?: boolean | OfflineBufferConfig;
+}
+
+/**
+ * Durable storage for the offline buffer
+ * Entries are opaque strings kept in insertion order; storages drop the
+ * oldest entries to stay within their size cap.
+ */
+export interface BufferStorage {
+  /** Append an entry */
+  append(entry: string): Promise<void>;
+  
+  /** Read every stored entry, oldest first */
+  load(): Promise<string[]>;
+  
+  /** Replace the stored entries */
+  replace(entries: string[]): Promise<void>;
+}
+
+/**
+ * Offline buffer configuration
+ */
+export interface OfflineBufferConfig {
+  /** Storage for failed batches (default: the file at path on Node.js and Bun, IndexedDB or localStorage in browsers) */
+  storage?: BufferStorage;
+  
+  /** Buffer file on Node.js and Bun, required there and not shared with other processes; needs the Node.js entry point */
+  path?: string;
+  
+  /** IndexedDB database name or localStorage key in browsers (default: otel-http-logger:<serviceName>) */
+  key?: string;
+  
+  /** Maximum total size of buffered batches in bytes; the oldest are dropped first (default: 5 MiB) */
+  maxBytes?: number;
+  
+  /** Number of files the buffer rotates through on Node.js and Bun (default: 5) */
+  maxFiles?: number;
+}
+
+/**
+ * Retry policy for failed exports
+ * Only network errors and 429/502/503/504 responses are retried, using
+ * exponential backoff with full jitter or the server's Retry-After delay.
+ */
+export interface RetryConfig {
+  /** Maximum number of retries per export (default: 3) */
+  maxRetries?: number;
+  
+  /** Upper bound of the first backoff delay in milliseconds (default: 1000) */
+  initialBackoffMillis?: number;
+  
+  /** Maximum backoff delay in milliseconds (default: 30000) */
+  maxBackoffMillis?: number;
+  
+  /** Factor the backoff bound grows by after each retry (default: 2) */
+  backoffMultiplier?: number;
+  
+  /** Maximum total time spent on an export including retries; no retry starts after it (default: 60000) */
+  maxRetryTimeMillis?: number;
+}
+
+/**
+ * OTLP/HTTP exporter configuration
+ */
+export interface OtlpHttpExporterConfig {
+  /** OTLP HTTP logs endpoint URL; an empty endpoint skips transmission */
+  endpoint: string;
+  
+  /** Headers for OTLP HTTP collector authentication */
+  headers?: Record<string, string>;
+  
+  /** OTLP HTTP traces endpoint URL (default: endpoint with /v1/logs replaced by /v1/traces) */
+  tracesEndpoint?: string;
+  
+  /** Encoding for export requests (default: 'http/json') */
+  protocol?: OtlpProtocol;
+  
+  /** Compression for export requests (default: 'none') */
+  compression?: CompressionAlgorithm;
+  
+  /** Service name used to prefix diagnostics */
+  serviceName?: string;
+  
+  /** Retry policy for failed exports */
+  retry?: RetryConfig;
+  
+  /** Time in milliseconds before an export request is aborted (default: 10000) */
+  timeoutMillis?: number;
+}
+
+/**
+ * Built-in console output modes
+ * - 'simple': `[service] [LEVEL] message` followed by the raw attributes
+ * - 'pretty': colorized, aligned lines with timestamps
+ * - 'json': one JSON object per line with the OTLP record fields
+ * - 'off': no console output
+ */
+export type ConsoleMode = 'simple' | 'pretty' | 'json' | 'off';
+
+/**
+ * A log entry as passed to console formatters
+ */
+export interface ConsoleEntry {
+  /** Time the entry was logged */
+  timestamp: Date;
+  
+  level: LogLevel;
+  
+  /** The message, without the context prefix */
+  message: string;
+  
+  /** The logger's context prefix ('' for the root logger) */
+  context: string;
+  
+  serviceName: string;
+  environment: string;
+  attributes?: Record<string, any>;
+  
+  /**
+   * Exception attributes of the error passed to logger.error(), if any
+   * (`exception.type`, `exception.message`, `exception.stacktrace`, ...),
+   * redacted like the exported record
+   */
+  exception?: Record<string, any>;
+  traceId?: string;
+  spanId?: string;
 }
 
+/**
+ * Custom console formatter
+ * Returns the line to print with the level's console method, or undefined to print nothing.
+ */
+export type ConsoleFormatter = (entry: ConsoleEntry) => string | undefined;
+
+/**
+ * Console output setting: a built-in mode or a custom formatter
+ */
+export type ConsoleOutput = ConsoleMode | ConsoleFormatter;
+
 /**
  * Logger configuration
  */
-export interface LoggerConfig extends OtelConfig {}
+export interface LoggerConfig extends OtelConfig {
+  /** Minimum level of records to emit (default: LogLevel.DEBUG) */
+  level?: LevelSetting;
+  
+  /**
+   * Minimum levels for specific contexts, keyed by newContext prefix
+   * `*` matches any characters, and a key also applies to the contexts nested
+   * under it; the longest matching key wins, e.g. `{ 'handler:*': 'debug', 'middleware': 'warn' }`
+   */
+  levels?: Record<string, LevelSetting>;
+  
+  /** Console output mode or custom formatter (default: 'simple') */
+  console?: ConsoleOutput;
+  
+  /**
+   * Register hooks that flush records when the process or page goes away (default: false)
+   * Node.js/Bun: shut down on beforeExit, SIGTERM and SIGINT.
+   * Browsers: send queued records with sendBeacon or fetch keepalive on pagehide and
+   * when the page becomes hidden.
+   */
+  shutdownHooks?: boolean;
+  
+  /** Maximum time shutdown waits for queued records to be exported (default: 5000) */
+  shutdownTimeoutMillis?: number;
+  
+  /** Number of nested causes and aggregated errors serialized for logger.error() (default: 3) */
+  maxErrorDepth?: number;
+  
+  /** Also record errors passed to logger.error() as exception events on the active span (default: false) */
+  recordErrorsOnSpan?: boolean;
+  
+  /** Redact sensitive attributes before records are queued or printed; true uses DEFAULT_REDACTION_RULES (default: false) */
+  redaction?: boolean | RedactionConfig;
+  
+  /** Processors applied, in order, to every record of every context (default: none) */
+  processors?: LogProcessor[];
+}
+
+/**
+ * A log record as seen by processors, before it is queued and printed
+ */
+export interface ProcessedLogRecord {
+  level: LogLevel;
+  
+  /** Message without the context prefix */
+  message: string;
+  
+  /** Context and per-call attributes; processors may add, rename or remove entries */
+  attributes: Record<string, any>;
+  
+  /** Error or other thrown value passed to logger.error(), if any */
+  error?: unknown;
+}
+
+/**
+ * Where a processed record was emitted
+ */
+export interface LogProcessorContext {
+  /** Context prefix of the emitting logger, '' for the root logger */
+  context: string;
+  serviceName: string;
+  environment: string;
+  traceId: string;
+  spanId?: string;
+}
+
+/**
+ * Hook between a log call and the record being queued and printed
+ */
+export interface LogProcessor {
+  /**
+   * Called for every record before it is redacted, queued and printed
+   * Mutate the record in place, return a replacement, or return false to drop it.
+   */
+  onEmit(record: ProcessedLogRecord, context: LogProcessorContext): ProcessedLogRecord | false | void;
+  
+  /** Called when the logger is flushed, before queued records are exported */
+  onFlush?(): void | Promise<void>;
+  
+  /** Called once when the logger shuts down, before queued records are exported */
+  shutdown?(): void | Promise<void>;
+}
+
+/**
+ * What to do with a redacted value
+ * - 'mask': replace it with the mask string
+ * - 'hash': replace it with an HMAC-SHA-256 under the config's hashKey, so equal values can still be correlated
+ * - 'drop': remove the attribute
+ */
+export type RedactionAction = 'mask' | 'hash' | 'drop';
+
+/**
+ * Built-in value patterns
+ */
+export type RedactionPattern = 'email' | 'creditCard' | 'jwt';
+
+/**
+ * A redaction rule, matching attributes by key or string values by pattern
+ */
+export interface RedactionRule {
+  /**
+   * Attribute key, matched case-insensitively at any depth (e.g. 'password'),
+   * or a dotted path from the top level where `*` matches one segment (e.g. 'user.*.ssn').
+   * Dotted keys count as nested, so 'password' also matches 'user.password'.
+   */
+  key?: string;
+  
+  /** Pattern redacted wherever it occurs in string values */
+  pattern?: RegExp | RedactionPattern;
+  
+  /** What to do with matching values (default: the config's action) */
+  action?: RedactionAction;
+}
+
+/**
+ * Redaction configuration
+ */
+export interface RedactionConfig {
+  /** Redaction rules (default: DEFAULT_REDACTION_RULES) */
+  rules?: RedactionRule[];
+  
+  /** Action for rules that do not specify one (default: 'mask') */
+  action?: RedactionAction;
+  
+  /** Replacement for masked values (default: '[REDACTED]') */
+  mask?: string;
+  
+  /**
+   * Secret key for the 'hash' action, required when any rule hashes
+   * Keep it out of the logs' reach: anyone holding it can test guesses against the hashes.
+   */
+  hashKey?: string;
+}
+
+/**
+ * Storage for per-async-context state, such as Node.js AsyncLocalStorage
+ */
+export interface ContextManager<T> {
+  /** Get the store of the active context, if any */
+  getStore(): T | undefined;
+  
+  /** Run a function with a store active */
+  run<R>(store: T, fn: () => R): R;
+}
 
 /**
  * Context logger interface
@@ -31,8 +386,149 @@ export interface ContextLogger {
   debug(message: string, attributes?: Record<string, any>): void;
   info(message: string, attributes?: Record<string, any>): void;
   warn(message: string, attributes?: Record<string, any>): void;
-  error(message: string, error?: any, attributes?: Record<string, any>): void;
-  newContext(context: string): ContextLogger;
+  error(message: string, error?: unknown, attributes?: Record<string, any>): void;
+  newContext(context: string, attributes?: Record<string, any>): ContextLogger;
+  withAttributes(attributes: Record<string, any>): ContextLogger;
+  addProcessor(processor: LogProcessor): ContextLogger;
+  setLevel(level: LevelSetting, context?: string): void;
+  isLevelEnabled(level: LogLevel): boolean;
+  startSpan(name: string, attributes?: Record<string, any>): Span;
+  withSpan<T>(name: string, fn: (span: Span) => T | Promise<T>, attributes?: Record<string, any>): Promise<T>;
+  shutdown(timeoutMillis?: number): Promise<void>;
+}
+
+/**
+ * Trace and span IDs identifying where a record was emitted
+ */
+export interface SpanContext {
+  traceId: string;
+  spanId: string;
+}
+
+/**
+ * W3C trace context received from or sent to another service
+ */
+export interface TraceContext extends SpanContext {
+  /** Trace flags, e.g. 0x01 when sampled */
+  traceFlags: number;
+  
+  /** Vendor-specific tracestate header value */
+  traceState?: string;
+}
+
+/**
+ * W3C trace context header values
+ */
+export interface TraceContextHeaders {
+  traceparent?: string | null;
+  tracestate?: string | null;
+}
+
+/**
+ * Options for request-scoped logger contexts
+ */
+export interface RequestOptions extends TraceContextHeaders {
+  /**
+   * Flush the request's own logs and spans when it completes (default: false)
+   * 'auto' flushes only when records are not exported on a schedule (scheduledDelayMillis: 0).
+   */
+  flush?: boolean | 'auto';
+}
+
+/**
+ * Options for the HTTP server middleware
+ */
+export interface HttpMiddlewareOptions {
+  /** Context of the request logger (default: 'http') */
+  context?: string;
+  
+  /** Log a record when each request starts, not only when it finishes (default: true) */
+  logStart?: boolean;
+  
+  /**
+   * Flush each request's records when it finishes (default: 'auto')
+   * 'auto' flushes only when records are not exported on a schedule (scheduledDelayMillis: 0).
+   */
+  flush?: boolean | 'auto';
+}
+
+/**
+ * A fetch implementation, such as globalThis.fetch
+ */
+export type FetchFunction = (input: RequestInfo | URL, init?: RequestInit) => Promise<Response>;
+
+/**
+ * Options for instrumented fetch
+ */
+export interface InstrumentedFetchOptions {
+  /** Context of the logger for outbound requests (default: 'fetch') */
+  context?: string;
+  
+  /** Query parameters logged with their values; other values are replaced with 'REDACTED' (default: none) */
+  allowedQueryParams?: string[];
+  
+  /** Add traceparent/tracestate headers to outgoing requests (default: true) */
+  propagateTraceContext?: boolean;
+}
+
+/**
+ * Incoming request as seen by node:http and Connect/Express-style middleware
+ */
+export interface NodeHttpRequest {
+  method?: string;
+  url?: string;
+  headers: Record<string, string | string[] | undefined>;
+  httpVersion?: string;
+  socket?: { remoteAddress?: string };
+  
+  /** Express mount path of the matched router */
+  baseUrl?: string;
+  
+  /** Express route matched by the request */
+  route?: { path?: unknown };
+  
+  /** Request logger attached by the middleware */
+  logger?: ContextLogger;
+}
+
+/**
+ * Server response as seen by node:http and Connect/Express-style middleware
+ */
+export interface NodeHttpResponse {
+  statusCode: number;
+  headersSent?: boolean;
+  writableEnded?: boolean;
+  writableFinished?: boolean;
+  end(): unknown;
+  once(event: 'finish' | 'close', listener: () => void): unknown;
+}
+
+/**
+ * OTLP AnyValue - exactly one of the variants is set.
+ * An empty object represents a null value.
+ */
+export interface AnyValue {
+  stringValue?: string;
+  boolValue?: boolean;
+  /** int64 encoded as a decimal string per the OTLP JSON mapping */
+  intValue?: string;
+  doubleValue?: number;
+  arrayValue?: {
+    values: AnyValue[];
+  };
+  kvlistValue?: {
+    values: KeyValue[];
+  };
+  /** Base64-encoded bytes */
+  bytesValue?: string;
+}
+
+/**
+ * OTLP key/value pair
+ */
+export interface KeyValue {
+  key: string;
+  value: AnyValue;
 }
 
 /**
@@ -43,16 +539,140 @@ export interface LogRecord {
   observedTimestamp: string;
   severityNumber: number;
   severityText: string;
-  body: {
-    stringValue: string;
-  };
+  body: AnyValue;
   traceId: string;
   spanId: string;
-  attributes: {
-    key: string;
-    value: {
-      stringValue: string;
-    };
+  attributes: KeyValue[];
+}
+
+/**
+ * OTLP span status codes
+ */
+export enum SpanStatusCode {
+  UNSET = 0,
+  OK = 1,
+  ERROR = 2,
+}
+
+/**
+ * Function returning resource attributes describing the environment
+ */
+export type ResourceDetector = () => Record<string, any>;
+
+/**
+ * Outcome of an export
+ */
+export enum ExportResultCode {
+  SUCCESS = 0,
+  FAILED = 1,
+}
+
+/**
+ * Result returned by an exporter
+ */
+export interface ExportResult {
+  code: ExportResultCode;
+  error?: Error;
+  
+  /** False when the batch can never succeed and should be dropped rather than requeued (default: true) */
+  retryable?: boolean;
+  
+  /** Number of records rejected by a receiver that accepted the rest of the request (OTLP partial success) */
+  rejectedCount?: number;
+}
+
+/**
+ * Options passed to an export
+ */
+export interface ExportOptions {
+  /**
+   * The page is being unloaded: send synchronously in a way that outlives the
+   * page (sendBeacon or fetch keepalive); the returned promise may never be awaited
+   */
+  unloading?: boolean;
+}
+
+/**
+ * Destination for batches of log records (and optionally spans)
+ */
+export interface LogExporter {
+  /**
+   * Export a batch of log records, grouped by resource and scope as in an OTLP request
+   * Batches that fail on every exporter are requeued for the next flush unless a
+   * failure is marked as not retryable.
+   */
+  export(batch: ExportLogsServiceRequest, options?: ExportOptions): Promise<ExportResult>;
+  
+  /** Export a batch of spans; exporters without this method ignore spans */
+  exportSpans?(batch: ExportTraceServiceRequest, options?: ExportOptions): Promise<ExportResult>;
+  
+  /** Release resources; later exports fail */
+  shutdown(): Promise<void>;
+}
+
+/**
+ * OTLP span record interface
+ */
+export interface SpanRecord {
+  traceId: string;
+  spanId: string;
+  parentSpanId?: string;
+  name: string;
+  /** SPAN_KIND_INTERNAL = 1 */
+  kind: number;
+  startTimeUnixNano: string;
+  endTimeUnixNano: string;
+  attributes: KeyValue[];
+  events: {
+    timeUnixNano: string;
+    name: string;
+    attributes: KeyValue[];
+  }[];
+  status: {
+    code: SpanStatusCode;
+    message?: string;
+  };
+}
+
+/**
+ * OTLP resource
+ */
+export interface Resource {
+  attributes: KeyValue[];
+}
+
+/**
+ * OTLP instrumentation scope
+ */
+export interface InstrumentationScope {
+  name: string;
+  version?: string;
+  attributes?: KeyValue[];
+}
+
+/**
+ * OTLP logs export request body
+ */
+export interface ExportLogsServiceRequest {
+  resourceLogs: {
+    resource: Resource;
+    scopeLogs: {
+      scope?: InstrumentationScope;
+      logRecords: LogRecord[];
+    }[];
+  }[];
+}
+
+/**
+ * OTLP traces export request body
+ */
+export interface ExportTraceServiceRequest {
+  resourceSpans: {
+    resource: Resource;
+    scopeSpans: {
+      scope?: InstrumentationScope;
+      spans: SpanRecord[];
+    }[];
   }[];
 }
 
@@ -65,3 +685,13 @@ export enum LogLevel {
   WARN = 'WARN',
   ERROR = 'ERROR',
 }
+
+/**
+ * Lowercase log level names, as used in configuration
+ */
+export type LogLevelName = 'debug' | 'info' | 'warn' | 'error';
+
+/**
+ * A log level given either as enum member or name
+ */
+export type LevelSetting = LogLevel | LogLevelName;
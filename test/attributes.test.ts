@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { toAnyValue, toKeyValueList } from '../src';
+
+describe('Attribute Encoding', () => {
+  describe('Primitive values', () => {
+    it('should encode strings as stringValue', () => {
+      expect(toAnyValue('hello')).toEqual({ stringValue: 'hello' });
+    });
+
+    it('should encode booleans as boolValue', () => {
+      expect(toAnyValue(true)).toEqual({ boolValue: true });
+      expect(toAnyValue(false)).toEqual({ boolValue: false });
+    });
+
+    it('should encode integers as intValue', () => {
+      expect(toAnyValue(42)).toEqual({ intValue: '42' });
+      expect(toAnyValue(-7)).toEqual({ intValue: '-7' });
+      expect(toAnyValue(BigInt('9007199254740993'))).toEqual({ intValue: '9007199254740993' });
+    });
+
+    it('should encode fractional numbers as doubleValue', () => {
+      expect(toAnyValue(12.5)).toEqual({ doubleValue: 12.5 });
+    });
+
+    it('should encode non-finite numbers as strings', () => {
+      expect(toAnyValue(NaN)).toEqual({ stringValue: 'NaN' });
+      expect(toAnyValue(Infinity)).toEqual({ stringValue: 'Infinity' });
+    });
+
+    it('should encode null and undefined as empty values', () => {
+      expect(toAnyValue(null)).toEqual({});
+      expect(toAnyValue(undefined)).toEqual({});
+    });
+
+    it('should encode dates as ISO strings', () => {
+      const date = new Date('2024-01-02T03:04:05.000Z');
+      expect(toAnyValue(date)).toEqual({ stringValue: '2024-01-02T03:04:05.000Z' });
+    });
+
+    it('should encode byte arrays as base64 bytesValue', () => {
+      expect(toAnyValue(new Uint8Array([104, 105]))).toEqual({ bytesValue: 'aGk=' });
+    });
+  });
+
+  describe('Nested values', () => {
+    it('should encode arrays as arrayValue', () => {
+      expect(toAnyValue([1, 'two', false])).toEqual({
+        arrayValue: {
+          values: [{ intValue: '1' }, { stringValue: 'two' }, { boolValue: false }]
+        }
+      });
+    });
+
+    it('should encode objects as kvlistValue', () => {
+      expect(toAnyValue({ a: 1, b: { c: 'x' } })).toEqual({
+        kvlistValue: {
+          values: [
+            { key: 'a', value: { intValue: '1' } },
+            {
+              key: 'b',
+              value: { kvlistValue: { values: [{ key: 'c', value: { stringValue: 'x' } }] } }
+            }
+          ]
+        }
+      });
+    });
+
+    it('should truncate values beyond the maximum depth', () => {
+      const value = toAnyValue({ a: { b: { c: 1 } } }, 2);
+      expect(value.kvlistValue?.values[0].value.kvlistValue?.values[0].value).toEqual({
+        stringValue: '[Object]'
+      });
+    });
+
+    it('should replace circular references with a placeholder', () => {
+      const obj: Record<string, any> = { name: 'root' };
+      obj.self = obj;
+
+      const value = toAnyValue(obj);
+      expect(value.kvlistValue?.values).toContainEqual({
+        key: 'self',
+        value: { stringValue: '[Circular]' }
+      });
+    });
+
+    it('should not treat repeated non-circular references as cycles', () => {
+      const shared = { id: 1 };
+      const value = toAnyValue([shared, shared]);
+      expect(value.arrayValue?.values).toEqual([
+        { kvlistValue: { values: [{ key: 'id', value: { intValue: '1' } }] } },
+        { kvlistValue: { values: [{ key: 'id', value: { intValue: '1' } }] } }
+      ]);
+    });
+  });
+
+  describe('Key/value lists', () => {
+    it('should encode each attribute with its typed value', () => {
+      expect(toKeyValueList({ durationMs: 12, ok: true })).toEqual([
+        { key: 'durationMs', value: { intValue: '12' } },
+        { key: 'ok', value: { boolValue: true } }
+      ]);
+    });
+  });
+});
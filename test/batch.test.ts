@@ -0,0 +1,327 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { BatchProcessor } from '../src';
+
+describe('Batch Processor', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('Size-based batching', () => {
+    it('should export once the batch size is reached', async () => {
+      const exportBatch = vi.fn().mockResolvedValue(true);
+      const processor = new BatchProcessor<number>(exportBatch, {
+        maxExportBatchSize: 3,
+        scheduledDelayMillis: 0
+      });
+
+      processor.add(1);
+      processor.add(2);
+      expect(exportBatch).not.toHaveBeenCalled();
+
+      processor.add(3);
+      await vi.waitFor(() => expect(exportBatch).toHaveBeenCalledWith([1, 2, 3]));
+      expect(processor.size).toBe(0);
+    });
+
+    it('should split a flush into batches of the maximum size', async () => {
+      const exportBatch = vi.fn().mockResolvedValue(true);
+      const processor = new BatchProcessor<number>(exportBatch, {
+        maxExportBatchSize: 2,
+        maxQueueSize: 10,
+        scheduledDelayMillis: 0
+      });
+
+      processor.add(0);
+      processor.add(1);
+      processor.add(2);
+      processor.add(3);
+      processor.add(4);
+
+      await processor.flush();
+      expect(exportBatch.mock.calls).toEqual([[[0, 1]], [[2, 3]], [[4]]]);
+    });
+  });
+
+  describe('Concurrent flushing', () => {
+    function deferred() {
+      let resolve!: (value: boolean) => void;
+      const promise = new Promise<boolean>(r => { resolve = r; });
+      return { promise, resolve };
+    }
+
+    it('should wait for the running export before resolving a flush', async () => {
+      const first = deferred();
+      const exportBatch = vi.fn()
+        .mockImplementationOnce(() => first.promise)
+        .mockResolvedValue(true);
+      const processor = new BatchProcessor<number>(exportBatch, { scheduledDelayMillis: 0 });
+
+      processor.add(1);
+      const running = processor.flush();
+      await vi.waitFor(() => expect(exportBatch).toHaveBeenCalledTimes(1));
+      processor.add(2);
+      let flushed = false;
+      const waiting = processor.flush().then(() => { flushed = true; });
+
+      await Promise.resolve();
+      expect(exportBatch).toHaveBeenCalledTimes(1);
+      expect(flushed).toBe(false);
+
+      first.resolve(true);
+      await Promise.all([running, waiting]);
+      expect(exportBatch.mock.calls).toEqual([[[1]], [[2]]]);
+      expect(processor.size).toBe(0);
+    });
+
+    it('should share one flush between calls made while an export is running', async () => {
+      const first = deferred();
+      const exportBatch = vi.fn()
+        .mockImplementationOnce(() => first.promise)
+        .mockResolvedValue(true);
+      const processor = new BatchProcessor<number>(exportBatch, { scheduledDelayMillis: 0 });
+
+      processor.add(1);
+      const running = processor.flush();
+      await vi.waitFor(() => expect(exportBatch).toHaveBeenCalledTimes(1));
+      processor.add(2);
+      const second = processor.flush();
+      processor.add(3);
+      const third = processor.flush();
+
+      expect(third).toBe(second);
+      first.resolve(true);
+      await Promise.all([running, second]);
+      expect(exportBatch.mock.calls).toEqual([[[1]], [[2, 3]]]);
+    });
+
+    it('should keep the order of records when a flush fails while another waits', async () => {
+      const first = deferred();
+      const exportBatch = vi.fn()
+        .mockImplementationOnce(() => first.promise)
+        .mockResolvedValueOnce(false)
+        .mockResolvedValue(true);
+      const processor = new BatchProcessor<number>(exportBatch, { scheduledDelayMillis: 0 });
+
+      processor.add(1);
+      const running = processor.flush();
+      await vi.waitFor(() => expect(exportBatch).toHaveBeenCalledTimes(1));
+      processor.add(2);
+      const waiting = processor.flush();
+
+      first.resolve(false);
+      await Promise.all([running, waiting]);
+      await processor.flush();
+
+      expect(exportBatch).toHaveBeenLastCalledWith([1, 2]);
+    });
+
+    it('should export up to maxConcurrentExports batches at the same time', async () => {
+      const pending = [deferred(), deferred(), deferred()];
+      const exportBatch = vi.fn()
+        .mockImplementationOnce(() => pending[0].promise)
+        .mockImplementationOnce(() => pending[1].promise)
+        .mockImplementationOnce(() => pending[2].promise);
+      const processor = new BatchProcessor<number>(exportBatch, {
+        maxExportBatchSize: 1,
+        maxQueueSize: 10,
+        scheduledDelayMillis: 0,
+        maxConcurrentExports: 2
+      });
+      // Keep the records queued until the explicit flush
+      (processor as any).exporting = true;
+
+      [1, 2, 3].forEach(item => processor.add(item));
+      const flushing = processor.flush();
+
+      await Promise.resolve();
+      expect(exportBatch).toHaveBeenCalledTimes(2);
+
+      pending[0].resolve(true);
+      await vi.waitFor(() => expect(exportBatch).toHaveBeenCalledTimes(3));
+      pending[1].resolve(true);
+      pending[2].resolve(true);
+      await flushing;
+      expect(processor.size).toBe(0);
+    });
+
+    it('should requeue failed concurrent batches in their original order', async () => {
+      const pending = [deferred(), deferred()];
+      const exportBatch = vi.fn()
+        .mockImplementationOnce(() => pending[0].promise)
+        .mockImplementationOnce(() => pending[1].promise)
+        .mockResolvedValue(true);
+      const processor = new BatchProcessor<number>(exportBatch, {
+        maxExportBatchSize: 1,
+        maxQueueSize: 10,
+        scheduledDelayMillis: 0,
+        maxConcurrentExports: 2
+      });
+      (processor as any).exporting = true;
+
+      [1, 2, 3].forEach(item => processor.add(item));
+      const flushing = processor.flush();
+
+      pending[1].resolve(false);
+      pending[0].resolve(false);
+      await flushing;
+
+      expect(exportBatch).toHaveBeenCalledTimes(2);
+      expect(processor.drain()).toEqual([1, 2, 3]);
+    });
+  });
+
+  describe('Filtered flushing', () => {
+    it('should export only matching records and keep the rest queued', async () => {
+      const exportBatch = vi.fn().mockResolvedValue(true);
+      const processor = new BatchProcessor<number>(exportBatch, { scheduledDelayMillis: 0 });
+
+      [1, 2, 3, 4].forEach(item => processor.add(item));
+      await processor.flush(item => item % 2 === 0);
+
+      expect(exportBatch).toHaveBeenCalledWith([2, 4]);
+      expect(processor.size).toBe(2);
+    });
+  });
+
+  describe('Time-based batching', () => {
+    it('should export after the scheduled delay', async () => {
+      vi.useFakeTimers();
+      const exportBatch = vi.fn().mockResolvedValue(true);
+      const processor = new BatchProcessor<string>(exportBatch, {
+        scheduledDelayMillis: 500
+      });
+
+      processor.add('a');
+      await vi.advanceTimersByTimeAsync(499);
+      expect(exportBatch).not.toHaveBeenCalled();
+
+      await vi.advanceTimersByTimeAsync(1);
+      expect(exportBatch).toHaveBeenCalledWith(['a']);
+    });
+
+    it('should not keep the process alive with its timer', () => {
+      const unref = vi.fn();
+      vi.spyOn(globalThis, 'setTimeout').mockReturnValue({ unref } as any);
+
+      const processor = new BatchProcessor<string>(vi.fn().mockResolvedValue(true));
+      processor.add('a');
+
+      expect(unref).toHaveBeenCalled();
+      vi.restoreAllMocks();
+    });
+  });
+
+  describe('Failure handling', () => {
+    it('should keep failed batches queued for the next flush', async () => {
+      const exportBatch = vi.fn().mockResolvedValue(false);
+      const processor = new BatchProcessor<number>(exportBatch, { scheduledDelayMillis: 0 });
+
+      processor.add(1);
+      processor.add(2);
+      await processor.flush();
+      expect(processor.size).toBe(2);
+
+      exportBatch.mockResolvedValue(true);
+      await processor.flush();
+      expect(exportBatch).toHaveBeenLastCalledWith([1, 2]);
+      expect(processor.size).toBe(0);
+    });
+
+    it('should drop new records once the queue is full', () => {
+      const processor = new BatchProcessor<number>(vi.fn().mockResolvedValue(true), {
+        maxExportBatchSize: 2,
+        maxQueueSize: 2,
+        scheduledDelayMillis: 0
+      });
+      // Prevent the size-triggered flush from draining the queue
+      (processor as any).exporting = true;
+
+      expect(processor.add(1)).toBe(true);
+      expect(processor.add(2)).toBe(true);
+      expect(processor.add(3)).toBe(false);
+      expect(processor.size).toBe(2);
+    });
+  });
+
+  describe('Drop policies', () => {
+    // Keep the size-triggered background flush from draining the queue
+    function createFullProcessor(config: Record<string, any>, options = {}) {
+      const processor = new BatchProcessor<{ id: number; severity: number }>(
+        vi.fn().mockResolvedValue(true),
+        { maxExportBatchSize: 3, maxQueueSize: 3, scheduledDelayMillis: 0, ...config },
+        { getSeverity: item => item.severity, ...options }
+      );
+      (processor as any).exporting = true;
+      return processor;
+    }
+
+    function ids(processor: BatchProcessor<{ id: number }>) {
+      return ((processor as any).queue as { id: number }[]).map(item => item.id);
+    }
+
+    it('should drop the newest records by default', () => {
+      const processor = createFullProcessor({});
+      [9, 5, 13, 17].forEach((severity, id) => processor.add({ id, severity }));
+
+      expect(ids(processor)).toEqual([0, 1, 2]);
+      expect(processor.droppedCount).toBe(1);
+    });
+
+    it('should drop the oldest records', () => {
+      const processor = createFullProcessor({ dropPolicy: 'oldest' });
+      [9, 5, 13, 17].forEach((severity, id) => processor.add({ id, severity }));
+
+      expect(ids(processor)).toEqual([1, 2, 3]);
+      expect(processor.droppedCount).toBe(1);
+    });
+
+    it('should drop the lowest severity records first', () => {
+      const processor = createFullProcessor({ dropPolicy: 'lowest-severity' });
+      [9, 5, 13, 17, 5].forEach((severity, id) => processor.add({ id, severity }));
+
+      expect(ids(processor)).toEqual([0, 2, 3]);
+      expect(processor.droppedCount).toBe(2);
+    });
+
+    it('should cap the queue when a failed batch is requeued', async () => {
+      const exportBatch = vi.fn().mockResolvedValue(false);
+      const processor = new BatchProcessor<number>(exportBatch, {
+        maxExportBatchSize: 2,
+        maxQueueSize: 2,
+        scheduledDelayMillis: 0,
+        dropPolicy: 'oldest'
+      });
+      (processor as any).exporting = true;
+
+      processor.add(1);
+      processor.add(2);
+      const flushing = processor.flush();
+      processor.add(3);
+      await flushing;
+
+      expect((processor as any).queue).toEqual([2, 3]);
+      expect(processor.droppedCount).toBe(1);
+    });
+
+    it('should report dropped records after the next successful export', async () => {
+      const onDropped = vi.fn();
+      const exportBatch = vi.fn().mockResolvedValue(false);
+      const processor = new BatchProcessor<number>(exportBatch, {
+        maxExportBatchSize: 1,
+        maxQueueSize: 1,
+        scheduledDelayMillis: 0
+      }, { onDropped });
+      (processor as any).exporting = true;
+
+      processor.add(1);
+      processor.add(2);
+      await processor.flush();
+      expect(onDropped).not.toHaveBeenCalled();
+
+      exportBatch.mockResolvedValue(true);
+      await processor.flush();
+      expect(onDropped).toHaveBeenCalledWith(1);
+      expect(processor.droppedCount).toBe(0);
+    });
+  });
+});
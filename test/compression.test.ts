@@ -0,0 +1,84 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { gunzipSync } from 'zlib';
+import { OtelBackend, LogLevel, gzip } from '../src';
+import { otlpConfig } from './helpers';
+
+describe('Compression', () => {
+  // Load the default entry point without the zlib fallback registered by the Node.js one
+  async function loadDefaultEntry(): Promise<typeof import('../src')> {
+    vi.resetModules();
+    return import('../src/index');
+  }
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe('gzip', () => {
+    it('should compress with CompressionStream where it exists', async () => {
+      const compressed = await gzip(new TextEncoder().encode('hello stream'));
+      expect(gunzipSync(compressed!).toString()).toBe('hello stream');
+    });
+
+    it('should fall back to zlib from the Node.js entry point without CompressionStream', async () => {
+      vi.stubGlobal('CompressionStream', undefined);
+      const compressed = await gzip('hello world');
+      expect(gunzipSync(compressed!).toString()).toBe('hello world');
+    });
+
+    it('should return undefined when no implementation is available', async () => {
+      const { gzip } = await loadDefaultEntry();
+      vi.stubGlobal('CompressionStream', undefined);
+      expect(await gzip('hello')).toBeUndefined();
+    });
+  });
+
+  describe('Backend compression option', () => {
+    const mockFetch = vi.fn();
+
+    beforeEach(() => {
+      global.fetch = mockFetch;
+      vi.spyOn(console, 'info').mockImplementation(() => {});
+      mockFetch.mockReset();
+      mockFetch.mockResolvedValue({ ok: true, status: 200, statusText: 'OK' });
+    });
+
+    it('should send gzip-compressed bodies with a Content-Encoding header', async () => {
+      const backend = new OtelBackend({ ...otlpConfig, compression: 'gzip' });
+
+      backend.createLogRecord(LogLevel.INFO, 'Compressed message');
+      await backend.flush();
+
+      const [, init] = mockFetch.mock.calls[0];
+      expect(init.headers['Content-Encoding']).toBe('gzip');
+
+      const payload = JSON.parse(gunzipSync(init.body).toString());
+      expect(payload.resourceLogs[0].scopeLogs[0].logRecords[0].body.stringValue).toBe('Compressed message');
+    });
+
+    it('should fall back to an uncompressed body when gzip is unavailable', async () => {
+      const { OtelBackend, LogLevel } = await loadDefaultEntry();
+      vi.stubGlobal('CompressionStream', undefined);
+      const backend = new OtelBackend({ ...otlpConfig, compression: 'gzip' });
+
+      backend.createLogRecord(LogLevel.INFO, 'Plain message');
+      await backend.flush();
+
+      const [, init] = mockFetch.mock.calls[0];
+      expect(init.headers['Content-Encoding']).toBeUndefined();
+      expect(JSON.parse(init.body).resourceLogs[0].scopeLogs[0].logRecords[0].body.stringValue).toBe('Plain message');
+    });
+
+    it('should not compress by default', async () => {
+      const backend = new OtelBackend(otlpConfig);
+
+      backend.createLogRecord(LogLevel.INFO, 'Default message');
+      await backend.flush();
+
+      const [, init] = mockFetch.mock.calls[0];
+      expect(init.headers['Content-Encoding']).toBeUndefined();
+      expect(typeof init.body).toBe('string');
+    });
+  });
+});
@@ -0,0 +1,141 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Logger, LogLevel, ConsoleEntry, formatPretty, formatJson, serializeError } from '../src';
+import { config } from './helpers';
+
+describe('Console Output', () => {
+  const entry: ConsoleEntry = {
+    timestamp: new Date('2026-01-02T03:04:05.678Z'),
+    level: LogLevel.WARN,
+    message: 'Slow request',
+    context: 'handler',
+    serviceName: 'test-service',
+    environment: 'test',
+    attributes: { durationMs: 1250, path: '/users', note: 'took a while' },
+    traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+    spanId: '00f067aa0ba902b7'
+  };
+
+  const consoleConfig = { ...config, exporters: [] };
+
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('formatPretty', () => {
+    it('should format an aligned line with timestamp, context and attributes', () => {
+      expect(formatPretty(entry, false)).toBe(
+        '2026-01-02T03:04:05.678Z WARN  [test-service] [handler] Slow request durationMs=1250 path=/users note="took a while"'
+      );
+    });
+
+    it('should colorize the level when colors are enabled', () => {
+      expect(formatPretty(entry, true)).toContain('\x1b[33mWARN \x1b[0m');
+    });
+
+    it('should append the error stack', () => {
+      const line = formatPretty({ ...entry, level: LogLevel.ERROR, exception: serializeError(new Error('boom')) }, false);
+      expect(line.split('\n')[1]).toBe('Error: boom');
+    });
+  });
+
+  describe('formatJson', () => {
+    it('should format the OTLP record fields as a single JSON line', () => {
+      const line = formatJson({ ...entry, attributes: { nested: { big: 10n } } });
+
+      expect(line).not.toContain('\n');
+      expect(JSON.parse(line)).toEqual({
+        timestamp: '1767323045678000000',
+        severityNumber: 13,
+        severityText: 'WARN',
+        body: '[handler] Slow request',
+        traceId: entry.traceId,
+        spanId: entry.spanId,
+        resource: { 'service.name': 'test-service', 'deployment.environment': 'test' },
+        attributes: { nested: { big: '10' } }
+      });
+    });
+
+    it('should handle circular attributes and errors', () => {
+      const circular: Record<string, any> = { name: 'loop' };
+      circular.self = circular;
+      const exception = serializeError(new Error('boom'));
+
+      const parsed = JSON.parse(formatJson({ ...entry, attributes: { circular }, exception }));
+
+      expect(parsed.attributes.circular).toEqual({ name: 'loop', self: '[Circular]' });
+      expect(parsed.attributes['exception.message']).toBe('boom');
+    });
+  });
+
+  describe('Logger console option', () => {
+    it('should keep the simple format by default', () => {
+      const logger = new Logger(consoleConfig);
+      logger.newContext('handler').info('Hello', { id: 1 });
+
+      expect(console.info).toHaveBeenCalledWith('[test-service] [INFO] [handler] Hello', { id: 1 });
+    });
+
+    it('should print JSON lines to stdout', () => {
+      const logger = new Logger({ ...consoleConfig, console: 'json' });
+      logger.error('Failed', new Error('boom'), { id: 1 });
+
+      expect(console.error).not.toHaveBeenCalled();
+      expect(console.log).toHaveBeenCalledTimes(1);
+      const line = JSON.parse((console.log as any).mock.calls[0][0]);
+      expect(line.severityText).toBe('ERROR');
+      expect(line.traceId).toBe(logger.getRootSpanContext().traceId);
+      expect(line.attributes).toMatchObject({ id: 1, 'exception.type': 'Error', 'exception.message': 'boom' });
+    });
+
+    it('should print errors redacted like the exported record', () => {
+      const error = Object.assign(new Error('Mail to jane@example.com failed'), { token: 'abc' });
+
+      new Logger({ ...consoleConfig, console: 'json', redaction: true }).error('Failed', error);
+      new Logger({ ...consoleConfig, console: 'pretty', redaction: true }).error('Failed', error);
+      new Logger({ ...consoleConfig, redaction: true }).error('Failed', error);
+
+      const json = JSON.parse((console.log as any).mock.calls[0][0]);
+      expect(json.attributes['exception.token']).toBe('[REDACTED]');
+      const printed = JSON.stringify([(console.log as any).mock.calls, (console.error as any).mock.calls]);
+      expect(printed).not.toContain('jane@example.com');
+      expect(printed).not.toContain('abc');
+    });
+
+        it('should print pretty lines with the level method', () => {
+      const logger = new Logger({ ...consoleConfig, console: 'pretty' });
+      logger.newContext('db').debug('Query');
+
+      expect(console.debug).toHaveBeenCalledWith(expect.stringMatching(/DEBUG \S*\[test-service\]\S* \S*\[db\]\S* Query$/));
+    });
+
+    it('should print nothing when off', () => {
+      const logger = new Logger({ ...consoleConfig, console: 'off' });
+      logger.info('Quiet');
+      logger.error('Quiet');
+
+      expect(console.info).not.toHaveBeenCalled();
+      expect(console.error).not.toHaveBeenCalled();
+    });
+
+    it('should use a custom formatter and skip entries it returns undefined for', () => {
+      const formatter = vi.fn((e: ConsoleEntry) => (e.level === LogLevel.DEBUG ? undefined : `${e.level}|${e.context}|${e.message}`));
+      const logger = new Logger({ ...consoleConfig, console: formatter });
+      const worker = logger.newContext('worker');
+
+      worker.debug('Hidden');
+      worker.warn('Shown', { attempt: 2 });
+
+      expect(formatter).toHaveBeenCalledWith(expect.objectContaining({ attributes: { attempt: 2 }, serviceName: 'test-service' }));
+      expect(console.debug).not.toHaveBeenCalled();
+      expect(console.warn).toHaveBeenCalledWith('WARN|worker|Shown');
+    });
+  });
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { AsyncLocalStorage } from 'async_hooks';
+import {
+  Logger,
+  StackContextManager,
+  createContextManager,
+  registerAsyncLocalStorage,
+  setContextManager,
+  getCurrentLogger,
+  createLogger
+} from '../src';
+
+describe('Context Management', () => {
+  describe('StackContextManager', () => {
+    it('should activate stores while the function runs', () => {
+      const manager = new StackContextManager<string>();
+
+      const result = manager.run('outer', () => {
+        const inner = manager.run('inner', () => manager.getStore());
+        return [inner, manager.getStore()];
+      });
+
+      expect(result).toEqual(['inner', 'outer']);
+      expect(manager.getStore()).toBeUndefined();
+    });
+
+    it('should restore the previous store when the function throws', () => {
+      const manager = new StackContextManager<string>();
+
+      expect(() => manager.run('failing', () => { throw new Error('boom'); })).toThrow('boom');
+      expect(manager.getStore()).toBeUndefined();
+    });
+
+    it('should only keep the store until the first await', async () => {
+      const manager = new StackContextManager<string>();
+      const seen: (string | undefined)[] = [];
+
+      await manager.run('request', async () => {
+        seen.push(manager.getStore());
+        await Promise.resolve();
+        seen.push(manager.getStore());
+      });
+
+      expect(seen).toEqual(['request', undefined]);
+    });
+  });
+
+  describe('createContextManager', () => {
+    afterEach(() => {
+      registerAsyncLocalStorage(AsyncLocalStorage);
+    });
+
+    it('should detect AsyncLocalStorage on Node.js', () => {
+      expect(createContextManager()).toBeInstanceOf(AsyncLocalStorage);
+    });
+
+    it('should prefer a registered implementation', () => {
+      class CustomStorage<T> extends StackContextManager<T> {}
+      registerAsyncLocalStorage(CustomStorage);
+
+      expect(createContextManager()).toBeInstanceOf(CustomStorage);
+    });
+  });
+
+  describe('Logger without AsyncLocalStorage', () => {
+    beforeEach(() => {
+      vi.spyOn(console, 'info').mockImplementation(() => {});
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      setContextManager(new StackContextManager());
+    });
+
+    afterEach(() => {
+      setContextManager(new AsyncLocalStorage());
+      vi.restoreAllMocks();
+    });
+
+    it('should keep withLogger, getCurrentLogger and createLogger working synchronously', async () => {
+      const logger = new Logger();
+
+      await logger.withLogger(() => {
+        expect(getCurrentLogger()).toBe(logger);
+        createLogger('handler').info('Handled');
+      });
+
+      expect(console.info).toHaveBeenCalledWith('[console-logger] [INFO] [handler] Handled', '');
+    });
+
+    it('should nest spans', async () => {
+      const logger = new Logger();
+
+      await logger.withSpan('work', span => {
+        expect(logger.startSpan('child').parentSpanId).toBe(span.spanId);
+      });
+    });
+  });
+});
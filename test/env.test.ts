@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { getEnvConfig, resolveConfig, initializeLogger, LogLevel } from '../src';
+
+describe('Environment Configuration', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+
+    // Isolate tests from OTEL_* variables set in the surrounding environment
+    [
+      'OTEL_EXPORTER_OTLP_ENDPOINT',
+      'OTEL_EXPORTER_OTLP_LOGS_ENDPOINT',
+      'OTEL_EXPORTER_OTLP_HEADERS',
+      'OTEL_SERVICE_NAME',
+      'OTEL_RESOURCE_ATTRIBUTES',
+      'OTEL_LOG_LEVEL',
+      'OTEL_EXPORTER_OTLP_COMPRESSION',
+      'OTEL_EXPORTER_OTLP_TIMEOUT'
+    ].forEach(name => vi.stubEnv(name, ''));
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe('getEnvConfig', () => {
+    it('should return no settings when no variables are set', () => {
+      expect(getEnvConfig()).toEqual({});
+    });
+
+    it('should derive signal endpoints from OTEL_EXPORTER_OTLP_ENDPOINT', () => {
+      vi.stubEnv('OTEL_EXPORTER_OTLP_ENDPOINT', 'https://collector:4318/');
+
+      expect(getEnvConfig()).toEqual({
+        endpoint: 'https://collector:4318/v1/logs',
+        tracesEndpoint: 'https://collector:4318/v1/traces'
+      });
+    });
+
+    it('should use OTEL_EXPORTER_OTLP_LOGS_ENDPOINT as-is', () => {
+      vi.stubEnv('OTEL_EXPORTER_OTLP_ENDPOINT', 'https://collector:4318');
+      vi.stubEnv('OTEL_EXPORTER_OTLP_LOGS_ENDPOINT', 'https://logs.collector/ingest');
+
+      expect(getEnvConfig().endpoint).toBe('https://logs.collector/ingest');
+    });
+
+    it('should parse headers and resource attributes', () => {
+      vi.stubEnv('OTEL_EXPORTER_OTLP_HEADERS', 'Authorization=Bearer%20token, x-tenant=acme,invalid');
+      vi.stubEnv('OTEL_RESOURCE_ATTRIBUTES', 'service.name=from-resource,deployment.environment=staging,service.version=1.2.3');
+
+      expect(getEnvConfig()).toEqual({
+        headers: { 'Authorization': 'Bearer token', 'x-tenant': 'acme' },
+        resourceAttributes: {
+          'service.name': 'from-resource',
+          'deployment.environment': 'staging',
+          'service.version': '1.2.3'
+        },
+        serviceName: 'from-resource',
+        environment: 'staging'
+      });
+    });
+
+    it('should prefer OTEL_SERVICE_NAME over the service.name resource attribute', () => {
+      vi.stubEnv('OTEL_RESOURCE_ATTRIBUTES', 'service.name=from-resource');
+      vi.stubEnv('OTEL_SERVICE_NAME', 'from-service-name');
+
+      expect(getEnvConfig().serviceName).toBe('from-service-name');
+    });
+
+    it('should parse log level and compression', () => {
+      vi.stubEnv('OTEL_LOG_LEVEL', 'WARN');
+      vi.stubEnv('OTEL_EXPORTER_OTLP_COMPRESSION', 'gzip');
+
+      expect(getEnvConfig()).toEqual({ level: LogLevel.WARN, compression: 'gzip' });
+    });
+
+    it('should parse the export timeout', () => {
+      vi.stubEnv('OTEL_EXPORTER_OTLP_TIMEOUT', '2500');
+
+      expect(getEnvConfig()).toEqual({ timeoutMillis: 2500 });
+    });
+
+    it('should ignore unknown log level, compression and timeout values', () => {
+      vi.stubEnv('OTEL_LOG_LEVEL', 'loud');
+      vi.stubEnv('OTEL_EXPORTER_OTLP_COMPRESSION', 'brotli');
+      vi.stubEnv('OTEL_EXPORTER_OTLP_TIMEOUT', 'soon');
+
+      expect(getEnvConfig()).toEqual({});
+    });
+
+    it('should not crash without process.env', () => {
+      vi.stubGlobal('process', undefined);
+      const config = getEnvConfig();
+      vi.unstubAllGlobals();
+
+      expect(config).toEqual({});
+    });
+  });
+
+  describe('resolveConfig', () => {
+    it('should let explicit settings win over environment variables', () => {
+      vi.stubEnv('OTEL_EXPORTER_OTLP_ENDPOINT', 'https://env.collector');
+      vi.stubEnv('OTEL_SERVICE_NAME', 'env-service');
+      vi.stubEnv('OTEL_EXPORTER_OTLP_HEADERS', 'x-env=1,Authorization=env');
+
+      const config = resolveConfig({
+        endpoint: 'https://explicit.collector/v1/logs',
+        serviceName: 'explicit-service',
+        headers: { Authorization: 'explicit' }
+      });
+
+      expect(config.endpoint).toBe('https://explicit.collector/v1/logs');
+      expect(config.tracesEndpoint).toBeUndefined();
+      expect(config.serviceName).toBe('explicit-service');
+      expect(config.headers).toEqual({ 'x-env': '1', Authorization: 'explicit' });
+    });
+
+    it('should fill in defaults when nothing is configured', () => {
+      expect(resolveConfig()).toEqual({
+        endpoint: '',
+        headers: {},
+        serviceName: 'unknown_service',
+        environment: 'development'
+      });
+    });
+  });
+
+  describe('initializeLogger', () => {
+    it('should apply the level from OTEL_LOG_LEVEL', () => {
+      vi.stubEnv('OTEL_LOG_LEVEL', 'info');
+
+      const logger = initializeLogger({ serviceName: 'test-service' });
+      logger.debug('hidden');
+      logger.info('shown');
+
+      expect(console.debug).not.toHaveBeenCalled();
+      expect(console.info).toHaveBeenCalledWith(expect.stringContaining('shown'), '');
+    });
+  });
+});
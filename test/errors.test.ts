@@ -0,0 +1,200 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  Logger,
+  InMemoryExporter,
+  serializeError,
+  formatError,
+  SpanStatusCode
+} from '../src';
+import { quietConfig } from './helpers';
+
+class HttpError extends Error {
+  name = 'HttpError';
+
+  constructor(message: string, public statusCode: number, public code: string) {
+    super(message);
+  }
+}
+
+describe('Error Serialization', () => {
+  describe('serializeError', () => {
+    it('should use the OpenTelemetry exception attributes', () => {
+      const error = new TypeError('bad input');
+
+      expect(serializeError(error)).toEqual({
+        'exception.type': 'TypeError',
+        'exception.message': 'bad input',
+        'exception.stacktrace': error.stack
+      });
+    });
+
+    it('should include custom fields such as code and statusCode', () => {
+      const attributes = serializeError(new HttpError('Not found', 404, 'E_NOT_FOUND'));
+
+      expect(attributes).toMatchObject({
+        'exception.type': 'HttpError',
+        'exception.message': 'Not found',
+        'exception.statusCode': 404,
+        'exception.code': 'E_NOT_FOUND'
+      });
+    });
+
+    it('should keep custom type and stacktrace fields without overwriting the exception ones', () => {
+      const error = Object.assign(new Error('connect ECONNREFUSED'), { type: 'system', stacktrace: 'forged' });
+
+      const attributes = serializeError(error);
+
+      expect(attributes['exception.type']).toBe('Error');
+      expect(attributes['exception.stacktrace']).toBe(error.stack);
+      expect(attributes['exception.fields.type']).toBe('system');
+      expect(attributes['exception.fields.stacktrace']).toBe('forged');
+    });
+
+        it('should follow cause chains', () => {
+      const root = new Error('connection refused');
+      const error = new Error('query failed', { cause: root });
+
+      expect(serializeError(error)['exception.cause']).toEqual({
+        type: 'Error',
+        message: 'connection refused',
+        stacktrace: root.stack
+      });
+    });
+
+    it('should include every AggregateError member', () => {
+      const error = new AggregateError([new Error('first'), 'second'], 'all failed');
+
+      const attributes = serializeError(error);
+
+      expect(attributes['exception.type']).toBe('AggregateError');
+      expect(attributes['exception.errors']).toEqual([
+        expect.objectContaining({ type: 'Error', message: 'first' }),
+        { type: 'string', message: 'second' }
+      ]);
+    });
+
+    it('should summarize errors past the depth limit', () => {
+      const error = new Error('a', { cause: new Error('b', { cause: new Error('c') }) });
+
+      const attributes = serializeError(error, 1);
+
+      expect(attributes['exception.cause']).toMatchObject({ message: 'b', cause: 'Error: c' });
+    });
+
+    it('should mark circular references', () => {
+      const error: any = new Error('loop');
+      error.cause = error;
+
+      expect(serializeError(error)['exception.cause']).toBe('[Circular]');
+    });
+
+    it('should serialize thrown strings, plain objects and null', () => {
+      expect(serializeError('boom')).toEqual({ 'exception.type': 'string', 'exception.message': 'boom' });
+      expect(serializeError({ reason: 'timeout', retries: 3 })).toEqual({
+        'exception.type': 'Object',
+        'exception.message': '{"reason":"timeout","retries":3}',
+        'exception.reason': 'timeout',
+        'exception.retries': 3
+      });
+      expect(serializeError(null)).toEqual({ 'exception.type': 'null', 'exception.message': 'null' });
+    });
+  });
+
+  describe('formatError', () => {
+    it('should print the stack, or the type and message', () => {
+      const error = new Error('boom');
+
+      expect(formatError(error)).toBe(error.stack);
+      expect(formatError('boom')).toBe('string: boom');
+    });
+  });
+
+  describe('Logger', () => {
+    let exporter: InMemoryExporter;
+
+    beforeEach(() => {
+      exporter = new InMemoryExporter();
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should attach exception attributes to error records', async () => {
+      const logger = new Logger({ ...quietConfig, exporters: [exporter] });
+
+      logger.error('Request failed', new HttpError('Bad gateway', 502, 'E_UPSTREAM'), { route: '/users' });
+      logger.error('Job failed', 'timeout');
+      await logger.flush();
+
+      const [first, second] = exporter.getFinishedLogRecords();
+      const keys = first.attributes.map(a => a.key);
+      expect(keys).toEqual(expect.arrayContaining([
+        'route', 'exception.type', 'exception.message', 'exception.stacktrace', 'exception.statusCode', 'exception.code'
+      ]));
+      expect(second.attributes).toContainEqual({ key: 'exception.message', value: { stringValue: 'timeout' } });
+    });
+
+    it('should redact custom error fields by their own names', async () => {
+      const logger = new Logger({ ...quietConfig, exporters: [exporter], redaction: true });
+      const error = Object.assign(new Error('Unauthorized'), { token: 'abc' });
+
+      logger.error('Request failed', error);
+      await logger.flush();
+
+      const [record] = exporter.getFinishedLogRecords();
+      expect(record.attributes).toContainEqual({ key: 'exception.token', value: { stringValue: '[REDACTED]' } });
+    });
+
+        it('should respect maxErrorDepth', async () => {
+      const logger = new Logger({ ...quietConfig, exporters: [exporter], maxErrorDepth: 0 });
+
+      logger.error('Failed', new Error('outer', { cause: new Error('inner') }));
+      await logger.flush();
+
+      const [record] = exporter.getFinishedLogRecords();
+      expect(record.attributes).toContainEqual({ key: 'exception.cause', value: { stringValue: 'Error: inner' } });
+    });
+
+    it('should record errors on the active span when enabled', async () => {
+      const logger = new Logger({ ...quietConfig, exporters: [exporter], recordErrorsOnSpan: true });
+
+      await logger.withSpan('work', () => {
+        logger.newContext('worker').error('Failed', new Error('boom'));
+      });
+      await logger.flush();
+
+      const [span] = exporter.getFinishedSpans();
+      expect(span.events.map(event => event.name)).toEqual(['exception']);
+      expect(span.events[0].attributes).toContainEqual({ key: 'exception.message', value: { stringValue: 'boom' } });
+    });
+
+    it('should redact errors thrown inside withSpan on the span event', async () => {
+      const logger = new Logger({ ...quietConfig, exporters: [exporter], redaction: true, maxErrorDepth: 0 });
+      const error = Object.assign(new Error('Failed for jane@example.com', { cause: new Error('inner') }), { token: 'SECRET-TOKEN' });
+
+      await expect(logger.withSpan('work', () => { throw error; })).rejects.toBe(error);
+      await logger.flush();
+
+      const [span] = exporter.getFinishedSpans();
+      expect(span.events[0].attributes).toEqual(expect.arrayContaining([
+        { key: 'exception.token', value: { stringValue: '[REDACTED]' } },
+        { key: 'exception.message', value: { stringValue: 'Failed for [REDACTED]' } },
+        { key: 'exception.cause', value: { stringValue: 'Error: inner' } }
+      ]));
+      expect(span.status).toEqual({ code: SpanStatusCode.ERROR, message: 'Failed for [REDACTED]' });
+    });
+
+        it('should not record errors on spans by default', async () => {
+      const logger = new Logger({ ...quietConfig, exporters: [exporter] });
+
+      await logger.withSpan('work', () => {
+        logger.error('Failed', new Error('boom'));
+      });
+      await logger.flush();
+
+      expect(exporter.getFinishedSpans()[0].events).toEqual([]);
+    });
+  });
+});
@@ -0,0 +1,322 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  Logger,
+  OtelBackend,
+  LogLevel,
+  OtlpHttpExporter,
+  ConsoleExporter,
+  InMemoryExporter,
+  ExportResultCode,
+  LogExporter,
+  ExportLogsServiceRequest
+} from '../src';
+import { config } from './helpers';
+
+function createRequest(message: string): ExportLogsServiceRequest {
+  return {
+    resourceLogs: [{
+      resource: { attributes: [{ key: 'service.name', value: { stringValue: 'test-service' } }] },
+      scopeLogs: [{
+        logRecords: [{
+          timestamp: '1',
+          observedTimestamp: '1',
+          severityNumber: 9,
+          severityText: 'INFO',
+          body: { stringValue: message },
+          traceId: '4bf92f3577b34da6a3ce929d0e0e4736',
+          spanId: '00f067aa0ba902b7',
+          attributes: []
+        }]
+      }]
+    }]
+  };
+}
+
+describe('Exporters', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('OtlpHttpExporter', () => {
+    const mockFetch = vi.fn();
+
+    beforeEach(() => {
+      global.fetch = mockFetch;
+      mockFetch.mockReset();
+      mockFetch.mockResolvedValue({ ok: true, status: 200, statusText: 'OK' });
+    });
+
+    it('should post logs to the endpoint', async () => {
+      const exporter = new OtlpHttpExporter({
+        endpoint: 'https://test.endpoint/v1/logs',
+        headers: { 'Authorization': 'test-token' }
+      });
+
+      const result = await exporter.export(createRequest('Hello'));
+
+      expect(result).toEqual({ code: ExportResultCode.SUCCESS });
+      const [url, init] = mockFetch.mock.calls[0];
+      expect(url).toBe('https://test.endpoint/v1/logs');
+      expect(init.headers).toEqual({ 'Content-Type': 'application/json', 'Authorization': 'test-token' });
+      expect(JSON.parse(init.body)).toEqual(createRequest('Hello'));
+      expect(console.info).not.toHaveBeenCalled();
+    });
+
+    it('should return a failed result with the last error', async () => {
+      mockFetch.mockResolvedValue({ ok: false, status: 503, statusText: 'Service Unavailable' });
+      const exporter = new OtlpHttpExporter({ endpoint: 'https://test.endpoint/v1/logs', retry: { maxRetries: 0 } });
+
+      const result = await exporter.export(createRequest('Hello'));
+
+      expect(result.code).toBe(ExportResultCode.FAILED);
+      expect(result.error?.message).toBe('HTTP error 503: Service Unavailable');
+      expect(result.retryable).toBeUndefined();
+    });
+
+    it('should retry retryable statuses and network errors', async () => {
+      mockFetch
+        .mockRejectedValueOnce(new TypeError('fetch failed'))
+        .mockResolvedValueOnce({ ok: false, status: 429, statusText: 'Too Many Requests' })
+        .mockResolvedValueOnce({ ok: true, status: 200, statusText: 'OK' });
+      const exporter = new OtlpHttpExporter({
+        endpoint: 'https://test.endpoint/v1/logs',
+        retry: { initialBackoffMillis: 1 }
+      });
+
+      const result = await exporter.export(createRequest('Hello'));
+
+      expect(result).toEqual({ code: ExportResultCode.SUCCESS });
+      expect(mockFetch).toHaveBeenCalledTimes(3);
+      expect(console.warn).toHaveBeenCalledTimes(2);
+    });
+
+    it('should honor Retry-After', async () => {
+      const headers = new Headers({ 'Retry-After': '0' });
+      mockFetch
+        .mockResolvedValueOnce({ ok: false, status: 503, statusText: 'Service Unavailable', headers })
+        .mockResolvedValueOnce({ ok: true, status: 200, statusText: 'OK' });
+      const exporter = new OtlpHttpExporter({
+        endpoint: 'https://test.endpoint/v1/logs',
+        // A backoff this long would time out the test
+        retry: { initialBackoffMillis: 60000 }
+      });
+      vi.spyOn(Math, 'random').mockReturnValue(0.99);
+
+      const result = await exporter.export(createRequest('Hello'));
+
+      expect(result.code).toBe(ExportResultCode.SUCCESS);
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('in 0ms'), expect.any(Error));
+    });
+
+    it('should give up when the next retry would exceed the maximum retry time', async () => {
+      const headers = new Headers({ 'Retry-After': '120' });
+      mockFetch.mockResolvedValue({ ok: false, status: 503, statusText: 'Service Unavailable', headers });
+      const exporter = new OtlpHttpExporter({ endpoint: 'https://test.endpoint/v1/logs' });
+
+      const result = await exporter.export(createRequest('Hello'));
+
+      expect(result.code).toBe(ExportResultCode.FAILED);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+
+    it.each([400, 401, 413, 500])('should drop batches rejected with status %i', async (status) => {
+      mockFetch.mockResolvedValue({ ok: false, status, statusText: 'Rejected' });
+      const exporter = new OtlpHttpExporter({ endpoint: 'https://test.endpoint/v1/logs' });
+
+      const result = await exporter.export(createRequest('Hello'));
+
+      expect(result.code).toBe(ExportResultCode.FAILED);
+      expect(result.retryable).toBe(false);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Dropping 1 logs'), expect.any(Error));
+    });
+
+    it('should report JSON partial successes', async () => {
+      mockFetch.mockResolvedValue({
+        ok: true,
+        status: 200,
+        statusText: 'OK',
+        text: async () => JSON.stringify({ partialSuccess: { rejectedLogRecords: '1', errorMessage: 'Body too large' } })
+      });
+      const exporter = new OtlpHttpExporter({ endpoint: 'https://test.endpoint/v1/logs' });
+
+      const result = await exporter.export(createRequest('Hello'));
+
+      expect(result).toEqual({ code: ExportResultCode.SUCCESS, rejectedCount: 1 });
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('rejected 1 of 1 logs: Body too large'));
+    });
+
+    it('should ignore empty response bodies', async () => {
+      mockFetch.mockResolvedValue({ ok: true, status: 200, statusText: 'OK', text: async () => '' });
+      const exporter = new OtlpHttpExporter({ endpoint: 'https://test.endpoint/v1/logs' });
+
+      expect(await exporter.export(createRequest('Hello'))).toEqual({ code: ExportResultCode.SUCCESS });
+      expect(console.warn).not.toHaveBeenCalled();
+    });
+
+    it('should abort requests that outlast the timeout', async () => {
+      mockFetch.mockImplementation((_url: string, init: RequestInit) => new Promise((_resolve, reject) => {
+        init.signal!.addEventListener('abort', () => reject(new DOMException('Aborted', 'AbortError')));
+      }));
+      const exporter = new OtlpHttpExporter({
+        endpoint: 'https://test.endpoint/v1/logs',
+        timeoutMillis: 10,
+        retry: { maxRetries: 0 }
+      });
+
+      const result = await exporter.export(createRequest('Hello'));
+
+      expect(result.code).toBe(ExportResultCode.FAILED);
+      expect(result.error?.message).toBe('Request timed out after 10ms');
+      expect(result.retryable).toBeUndefined();
+    });
+
+    it('should stop reading response bodies that outlast the timeout', async () => {
+      mockFetch.mockResolvedValue({ ok: true, status: 200, statusText: 'OK', text: () => new Promise(() => {}) });
+      const exporter = new OtlpHttpExporter({ endpoint: 'https://test.endpoint/v1/logs', timeoutMillis: 10 });
+
+      expect(await exporter.export(createRequest('Hello'))).toEqual({ code: ExportResultCode.SUCCESS });
+    });
+
+    it('should fail exports after shutdown', async () => {
+      const exporter = new OtlpHttpExporter({ endpoint: 'https://test.endpoint/v1/logs' });
+      await exporter.shutdown();
+
+      const result = await exporter.export(createRequest('Hello'));
+
+      expect(result.code).toBe(ExportResultCode.FAILED);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('ConsoleExporter', () => {
+    it('should print each record as a JSON line with its resource', async () => {
+      const exporter = new ConsoleExporter();
+
+      await exporter.export(createRequest('Printed'));
+
+      expect(console.log).toHaveBeenCalledTimes(1);
+      const line = JSON.parse((console.log as any).mock.calls[0][0]);
+      expect(line.body).toEqual({ stringValue: 'Printed' });
+      expect(line.severityText).toBe('INFO');
+      expect(line.resource.attributes).toContainEqual({ key: 'service.name', value: { stringValue: 'test-service' } });
+    });
+  });
+
+  describe('InMemoryExporter', () => {
+    it('should collect records emitted by a logger', async () => {
+      const exporter = new InMemoryExporter();
+      const logger = new Logger({ ...config, exporters: [exporter] });
+
+      logger.newContext('handler').warn('Slow request', { durationMs: 1250 });
+      await logger.flush();
+
+      const [record] = exporter.getFinishedLogRecords();
+      expect(record.severityText).toBe('WARN');
+      expect(record.body.stringValue).toBe('[handler] Slow request');
+      expect(record.attributes).toContainEqual({ key: 'durationMs', value: { intValue: '1250' } });
+    });
+
+    it('should collect spans and clear records on reset', async () => {
+      const exporter = new InMemoryExporter();
+      const logger = new Logger({ ...config, exporters: [exporter] });
+
+      await logger.withSpan('load-users', () => logger.info('Loading'));
+      await logger.flush();
+
+      expect(exporter.getFinishedSpans().map(span => span.name)).toEqual(['load-users']);
+      expect(exporter.getExportedBatches()).toHaveLength(1);
+
+      exporter.reset();
+      expect(exporter.getFinishedLogRecords()).toEqual([]);
+      expect(exporter.getFinishedSpans()).toEqual([]);
+    });
+  });
+
+  describe('Multiple exporters', () => {
+    it('should send every batch to every exporter', async () => {
+      const first = new InMemoryExporter();
+      const second = new InMemoryExporter();
+      const backend = new OtelBackend({ ...config, exporters: [first, second] });
+
+      backend.createLogRecord(LogLevel.INFO, 'Shared');
+      await backend.flush();
+
+      expect(first.getFinishedLogRecords()[0].body.stringValue).toBe('Shared');
+      expect(second.getFinishedLogRecords()[0].body.stringValue).toBe('Shared');
+    });
+
+    it('should retry a batch only on the exporters it failed on', async () => {
+      const working = new InMemoryExporter();
+      const failing: LogExporter = {
+        export: vi.fn()
+          .mockRejectedValueOnce(new Error('boom'))
+          .mockResolvedValue({ code: ExportResultCode.SUCCESS }),
+        shutdown: vi.fn().mockResolvedValue(undefined)
+      };
+      const backend = new OtelBackend({ ...config, exporters: [failing, working] });
+
+      backend.createLogRecord(LogLevel.INFO, 'Once');
+      await backend.flush();
+      await backend.flush();
+      await backend.flush();
+
+      expect(working.getFinishedLogRecords()).toHaveLength(1);
+      expect(failing.export).toHaveBeenCalledTimes(2);
+      const batch = (failing.export as any).mock.calls[1][0];
+      expect(batch.resourceLogs[0].scopeLogs[0].logRecords[0].body.stringValue).toBe('Once');
+      expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Exporter failed'), expect.any(Error));
+    });
+
+    it('should requeue a batch that failed on every exporter', async () => {
+      const exporter: LogExporter = {
+        export: vi.fn()
+          .mockResolvedValueOnce({ code: ExportResultCode.FAILED })
+          .mockResolvedValue({ code: ExportResultCode.SUCCESS }),
+        shutdown: vi.fn().mockResolvedValue(undefined)
+      };
+      const backend = new OtelBackend({ ...config, exporters: [exporter], scheduledDelayMillis: 0 });
+
+      backend.createLogRecord(LogLevel.INFO, 'Retried');
+      await backend.flush();
+      await backend.flush();
+
+      expect(exporter.export).toHaveBeenCalledTimes(2);
+      const batch = (exporter.export as any).mock.calls[1][0];
+      expect(batch.resourceLogs[0].scopeLogs[0].logRecords[0].body.stringValue).toBe('Retried');
+    });
+
+    it('should drop a batch whose failures are not retryable', async () => {
+      const exporter: LogExporter = {
+        export: vi.fn().mockResolvedValue({ code: ExportResultCode.FAILED, retryable: false }),
+        shutdown: vi.fn().mockResolvedValue(undefined)
+      };
+      const backend = new OtelBackend({ ...config, exporters: [exporter], scheduledDelayMillis: 0 });
+
+      backend.createLogRecord(LogLevel.INFO, 'Rejected');
+      await backend.flush();
+      await backend.flush();
+
+      expect(exporter.export).toHaveBeenCalledTimes(1);
+    });
+
+    it('should flush and shut down every exporter on shutdown', async () => {
+      const first = new InMemoryExporter();
+      const second = new InMemoryExporter();
+      const backend = new OtelBackend({ ...config, exporters: [first, second] });
+
+      backend.createLogRecord(LogLevel.INFO, 'Last words');
+      await backend.shutdown();
+
+      expect(first.getFinishedLogRecords()).toHaveLength(1);
+      expect((await second.export(createRequest('Late'))).code).toBe(ExportResultCode.FAILED);
+    });
+  });
+});
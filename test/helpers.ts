@@ -0,0 +1,33 @@
+/**
+ * Fixtures shared by the tests
+ */
+
+/**
+ * Logger config without an OTLP endpoint; tests pass their own exporters
+ */
+export const config = {
+  endpoint: '',
+  headers: {},
+  serviceName: 'test-service',
+  environment: 'test'
+};
+
+/**
+ * The same config without console output
+ */
+export const quietConfig = { ...config, console: 'off' as const };
+
+/**
+ * Logger config sending to a mocked OTLP endpoint
+ */
+export const otlpConfig = { ...config, endpoint: 'https://test.endpoint/v1/logs' };
+
+/**
+ * Get the attributes of an exported record as a plain object of their values
+ */
+export function attributesOf(record: { attributes: { key: string; value: any }[] }): Record<string, any> {
+  return Object.fromEntries(record.attributes.map(({ key, value }) => [
+    key,
+    value.stringValue ?? value.intValue ?? value.doubleValue
+  ]));
+}
@@ -0,0 +1,128 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { LevelFilter, Logger, LogLevel, parseLogLevel } from '../src';
+import { otlpConfig } from './helpers';
+
+describe('Level Filtering', () => {
+  describe('parseLogLevel', () => {
+    it('should accept enum members and names in any case', () => {
+      expect(parseLogLevel(LogLevel.WARN)).toBe(LogLevel.WARN);
+      expect(parseLogLevel('error')).toBe(LogLevel.ERROR);
+      expect(parseLogLevel('Info')).toBe(LogLevel.INFO);
+      expect(parseLogLevel('verbose')).toBe(LogLevel.DEBUG);
+      expect(parseLogLevel('loud')).toBeUndefined();
+    });
+  });
+
+  describe('LevelFilter', () => {
+    it('should enable every level by default', () => {
+      const filter = new LevelFilter();
+      expect(filter.isEnabled(LogLevel.DEBUG, '')).toBe(true);
+      expect(filter.isEnabled(LogLevel.DEBUG, 'handler')).toBe(true);
+    });
+
+    it('should apply the default level to every context', () => {
+      const filter = new LevelFilter('warn');
+      expect(filter.isEnabled(LogLevel.INFO, '')).toBe(false);
+      expect(filter.isEnabled(LogLevel.INFO, 'handler')).toBe(false);
+      expect(filter.isEnabled(LogLevel.WARN, 'handler')).toBe(true);
+    });
+
+    it('should apply overrides to matching contexts and their children', () => {
+      const filter = new LevelFilter('info', { 'handler:*': 'debug', 'middleware': 'warn' });
+
+      expect(filter.isEnabled(LogLevel.DEBUG, 'handler:users')).toBe(true);
+      expect(filter.isEnabled(LogLevel.DEBUG, 'handler:users:get')).toBe(true);
+      expect(filter.isEnabled(LogLevel.DEBUG, 'handler')).toBe(false);
+      expect(filter.isEnabled(LogLevel.INFO, 'middleware')).toBe(false);
+      expect(filter.isEnabled(LogLevel.INFO, 'middleware:auth')).toBe(false);
+      expect(filter.isEnabled(LogLevel.INFO, 'middlewares')).toBe(true);
+      expect(filter.isEnabled(LogLevel.DEBUG, '')).toBe(false);
+    });
+
+    it('should prefer the most specific matching override', () => {
+      const filter = new LevelFilter('info', { 'db': 'error', 'db:migrations': 'debug' });
+
+      expect(filter.isEnabled(LogLevel.WARN, 'db:pool')).toBe(false);
+      expect(filter.isEnabled(LogLevel.DEBUG, 'db:migrations')).toBe(true);
+    });
+
+    it('should update levels at runtime', () => {
+      const filter = new LevelFilter('info');
+      expect(filter.isEnabled(LogLevel.DEBUG, 'worker')).toBe(false);
+
+      filter.setLevel('debug', 'worker');
+      expect(filter.isEnabled(LogLevel.DEBUG, 'worker')).toBe(true);
+
+      filter.setLevel(LogLevel.ERROR);
+      expect(filter.isEnabled(LogLevel.WARN, '')).toBe(false);
+      expect(filter.isEnabled(LogLevel.DEBUG, 'worker')).toBe(true);
+    });
+
+    it('should ignore unknown levels', () => {
+      const filter = new LevelFilter('warn');
+      filter.setLevel('loud' as any);
+      expect(filter.isEnabled(LogLevel.INFO, '')).toBe(false);
+    });
+  });
+
+  describe('Logger', () => {
+    const mockFetch = vi.fn();
+
+    beforeEach(() => {
+      global.fetch = mockFetch;
+      mockFetch.mockReset();
+      mockFetch.mockResolvedValue({ ok: true, status: 200, statusText: 'OK' });
+      vi.spyOn(console, 'debug').mockImplementation(() => {});
+      vi.spyOn(console, 'info').mockImplementation(() => {});
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should skip records below the level before reading their attributes', async () => {
+      const logger = new Logger({ ...otlpConfig, level: 'info' });
+      const attributes = {
+        get expensive() {
+          throw new Error('attributes should not be read');
+        }
+      };
+
+      logger.debug('Hidden', attributes);
+      await logger.flush();
+
+      expect(console.debug).not.toHaveBeenCalled();
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should apply per-context overrides to context loggers', async () => {
+      const logger = new Logger({ ...otlpConfig, level: 'info', levels: { 'handler:*': 'debug', 'middleware': 'warn' } });
+
+      logger.newContext('handler').newContext('users').debug('Handler detail');
+      logger.newContext('middleware').info('Middleware noise');
+      logger.newContext('middleware').warn('Middleware warning');
+      await logger.flush();
+
+      const body = JSON.parse(mockFetch.mock.calls[0][1].body);
+      const messages = body.resourceLogs[0].scopeLogs.flatMap((scopeLogs: any) =>
+        scopeLogs.logRecords.map((r: any) => r.body.stringValue)
+      );
+      expect(messages).toEqual(['[handler:users] Handler detail', '[middleware] Middleware warning']);
+    });
+
+    it('should share runtime level changes with context loggers', () => {
+      const logger = new Logger({ ...otlpConfig, level: 'info' });
+      const worker = logger.newContext('worker');
+
+      worker.debug('Before');
+      logger.setLevel('debug', 'worker');
+      worker.debug('After');
+
+      expect(console.debug).toHaveBeenCalledTimes(1);
+      expect(console.debug).toHaveBeenCalledWith(expect.stringContaining('After'), '');
+      expect(worker.isLevelEnabled(LogLevel.DEBUG)).toBe(true);
+      expect(logger.isLevelEnabled(LogLevel.DEBUG)).toBe(false);
+    });
+  });
+});
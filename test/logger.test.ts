@@ -1,5 +1,16 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { Logger, LogLevel, initializeLogger, createLogger, getCurrentLogger } from '../src';
+import {
+  Logger,
+  LogLevel,
+  InMemoryExporter,
+  initializeLogger,
+  createLogger,
+  getCurrentLogger,
+  setContextAttributes,
+  getContextAttributes,
+  withContextAttributes
+} from '../src';
+import { quietConfig, otlpConfig, attributesOf } from './helpers';
 
 describe('Logger', () => {
   // Mock console methods
@@ -50,7 +61,7 @@ describe('Logger', () => {
       logger.error('Error occurred', error);
       expect(console.error).toHaveBeenCalledWith(
         expect.stringContaining('[ERROR]'),
-        error,
+        error.stack,
         ''
       );
     });
@@ -83,6 +94,214 @@ describe('Logger', () => {
     });
   });
 
+  describe('Context attributes', () => {
+    it('should merge bound attributes into every record, with per-call overrides', async () => {
+      const exporter = new InMemoryExporter();
+      const logger = new Logger({ ...quietConfig, exporters: [exporter] });
+      const tenant = logger.withAttributes({ tenantId: 't-1', userId: 'u-1' });
+
+      tenant.info('first');
+      tenant.withAttributes({ userId: 'u-2' }).info('second', { tenantId: 't-2' });
+      await logger.flush();
+
+      const [first, second] = exporter.getFinishedLogRecords().map(attributesOf);
+      expect(first).toMatchObject({ tenantId: 't-1', userId: 'u-1' });
+      expect(second).toMatchObject({ tenantId: 't-2', userId: 'u-2' });
+    });
+
+    it('should send the context path as logger.context', async () => {
+      const exporter = new InMemoryExporter();
+      const logger = new Logger({ ...quietConfig, exporters: [exporter] });
+      const handler = logger.newContext('request', { requestId: 'r-1' }).newContext('handler');
+
+      handler.info('Handled');
+      logger.info('Root');
+      await logger.flush();
+
+      const [child, root] = exporter.getFinishedLogRecords();
+      expect(child.body.stringValue).toBe('[request:handler] Handled');
+      expect(attributesOf(child)).toMatchObject({ 'logger.context': 'request:handler', requestId: 'r-1' });
+      expect(attributesOf(root)).not.toHaveProperty('logger.context');
+    });
+
+    it('should not change the parent logger', async () => {
+      const exporter = new InMemoryExporter();
+      const logger = new Logger({ ...quietConfig, exporters: [exporter] });
+      const api = logger.newContext('api');
+
+      api.withAttributes({ userId: 'u-1' });
+      api.newContext('users', { table: 'users' });
+      api.info('Plain');
+      await logger.flush();
+
+      const attributes = attributesOf(exporter.getFinishedLogRecords()[0]);
+      expect(attributes).toMatchObject({ 'logger.context': 'api' });
+      expect(attributes).not.toHaveProperty('userId');
+      expect(attributes).not.toHaveProperty('table');
+    });
+
+    it('should override request attributes', async () => {
+      const exporter = new InMemoryExporter();
+      const logger = new Logger({ ...quietConfig, exporters: [exporter] });
+
+      await logger.withRequest(() => {
+        logger.withAttributes({ route: '/bound' }).info('Handled');
+      }, { requestId: 'r-1', route: '/users' });
+      await logger.flush();
+
+      expect(attributesOf(exporter.getFinishedLogRecords()[0])).toMatchObject({ requestId: 'r-1', route: '/bound' });
+    });
+
+    it('should print bound attributes to the console', () => {
+      const logger = new Logger();
+
+      logger.newContext('jobs', { jobId: 7 }).info('Started');
+
+      expect(console.info).toHaveBeenCalledWith(expect.stringContaining('[jobs] Started'), { jobId: 7 });
+    });
+  });
+
+  describe('Async context attributes', () => {
+    it('should apply attributes set in middleware to loggers further down', async () => {
+      const exporter = new InMemoryExporter();
+      const logger = new Logger({ ...quietConfig, exporters: [exporter] });
+      const handler = async () => {
+        await new Promise(resolve => setTimeout(resolve, 1));
+        createLogger('handler').info('Handled');
+      };
+
+      await logger.withLogger(async () => {
+        setContextAttributes({ requestId: 'r-1' });
+        setContextAttributes({ userId: 'u-1' });
+        await handler();
+      });
+
+      expect(attributesOf(exporter.getFinishedLogRecords()[0])).toMatchObject({ requestId: 'r-1', userId: 'u-1' });
+    });
+
+    it('should not leak between concurrent requests', async () => {
+      const exporter = new InMemoryExporter();
+      const logger = new Logger({ ...quietConfig, exporters: [exporter] });
+
+      await Promise.all(['r-1', 'r-2'].map((requestId, i) =>
+        logger.withRequest(async () => {
+          setContextAttributes({ requestId });
+          await new Promise(resolve => setTimeout(resolve, 10 - i * 5));
+          createLogger('handler').info(requestId);
+        })
+      ));
+      logger.info('outside');
+      await logger.flush();
+
+      const records = exporter.getFinishedLogRecords();
+      for (const record of records.slice(0, 2)) {
+        expect(attributesOf(record).requestId).toBe(record.body.stringValue.replace('[handler] ', ''));
+      }
+      expect(attributesOf(records[2])).not.toHaveProperty('requestId');
+    });
+
+    it('should keep attributes of nested scopes inside them', async () => {
+      const exporter = new InMemoryExporter();
+      const logger = new Logger({ ...quietConfig, exporters: [exporter] });
+
+      await logger.withRequest(async () => {
+        await withContextAttributes({ step: 'load' }, async () => {
+          setContextAttributes({ cache: 'miss' });
+          expect(getContextAttributes()).toEqual({ requestId: 'r-1', step: 'load', cache: 'miss' });
+          logger.info('inner');
+        });
+        logger.info('outer');
+      }, { requestId: 'r-1' });
+      await logger.flush();
+
+      const [inner, outer] = exporter.getFinishedLogRecords().map(attributesOf);
+      expect(inner).toMatchObject({ requestId: 'r-1', step: 'load', cache: 'miss' });
+      expect(outer).toMatchObject({ requestId: 'r-1' });
+      expect(outer).not.toHaveProperty('step');
+      expect(outer).not.toHaveProperty('cache');
+    });
+
+    it('should ignore attributes set outside a logger context', () => {
+      setContextAttributes({ requestId: 'r-1' });
+
+      expect(getContextAttributes()).toEqual({});
+      expect(withContextAttributes({ step: 'load' }, () => 42)).toBe(42);
+    });
+  });
+
+  describe('Request contexts', () => {
+    const mockFetch = vi.fn();
+
+    beforeEach(() => {
+      global.fetch = mockFetch;
+      mockFetch.mockReset();
+      mockFetch.mockResolvedValue({ ok: true, status: 200, statusText: 'OK' });
+    });
+
+    function exportedLogs(): any[] {
+      return mockFetch.mock.calls.flatMap(call =>
+        JSON.parse(call[1].body).resourceLogs[0].scopeLogs[0].logRecords
+      );
+    }
+
+    it('should give concurrent requests distinct trace IDs', async () => {
+      const logger = new Logger(otlpConfig);
+
+      await Promise.all(['a', 'b'].map(id =>
+        logger.withRequest(async () => {
+          await new Promise(resolve => setTimeout(resolve, 5));
+          createLogger('handler').info(`request ${id}`);
+        })
+      ));
+      await logger.flush();
+
+      const [first, second] = exportedLogs();
+      expect(first.traceId).not.toBe(second.traceId);
+      expect(first.traceId).not.toBe(logger.getRootSpanContext().traceId);
+    });
+
+    it('should add request attributes to every record, with per-call overrides', async () => {
+      const logger = new Logger(otlpConfig);
+
+      await logger.withRequest(() => {
+        createLogger('handler').info('first');
+        createLogger('handler').info('second', { route: '/override' });
+      }, { requestId: 'r-1', route: '/users' });
+      await logger.flush();
+
+      const [first, second] = exportedLogs();
+      expect(first.attributes).toContainEqual({ key: 'requestId', value: { stringValue: 'r-1' } });
+      expect(first.attributes).toContainEqual({ key: 'route', value: { stringValue: '/users' } });
+      expect(second.attributes).toContainEqual({ key: 'route', value: { stringValue: '/override' } });
+      expect(second.attributes).not.toContainEqual({ key: 'route', value: { stringValue: '/users' } });
+    });
+
+    it('should flush only the request\'s records when asked to', async () => {
+      const logger = new Logger(otlpConfig);
+      logger.info('outside request');
+
+      await logger.withRequest(() => {
+        logger.info('inside request');
+      }, undefined, { flush: true });
+
+      expect(exportedLogs().map(log => log.body.stringValue)).toEqual(['inside request']);
+
+      await logger.flush();
+      expect(exportedLogs().map(log => log.body.stringValue)).toEqual(['inside request', 'outside request']);
+    });
+
+    it('should continue an incoming trace', async () => {
+      const logger = new Logger(otlpConfig);
+      const traceId = '4bf92f3577b34da6a3ce929d0e0e4736';
+
+      await logger.withRequest(() => {
+        logger.info('joined');
+      }, undefined, { traceparent: `00-${traceId}-00f067aa0ba902b7-01`, flush: true });
+
+      expect(exportedLogs()[0].traceId).toBe(traceId);
+    });
+  });
+
   describe('Logger factory functions', () => {
     it('should initialize a logger with config', () => {
       const logger = initializeLogger({
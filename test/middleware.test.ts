@@ -0,0 +1,167 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'http';
+import { AddressInfo } from 'net';
+import {
+  Logger,
+  InMemoryExporter,
+  createLogger,
+  createHttpMiddleware,
+  wrapHttpHandler,
+  wrapFetchHandler,
+  getRequestLogger
+} from '../src';
+import { quietConfig, attributesOf } from './helpers';
+
+const config = { ...quietConfig, scheduledDelayMillis: 0 };
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const TRACEPARENT = `00-${TRACE_ID}-00f067aa0ba902b7-01`;
+
+describe('HTTP Middleware', () => {
+  let exporter: InMemoryExporter;
+  let logger: Logger;
+  let server: Server | undefined;
+
+  beforeEach(() => {
+    exporter = new InMemoryExporter();
+    logger = new Logger({ ...config, exporters: [exporter] });
+  });
+
+  afterEach(async () => {
+    // Keep-alive connections left by fetch would otherwise hold close() open until they time out
+    server?.closeAllConnections();
+    await new Promise(resolve => server ? server.close(resolve) : resolve(undefined));
+    server = undefined;
+    vi.restoreAllMocks();
+  });
+
+  async function listen(listener: (req: IncomingMessage, res: ServerResponse) => void): Promise<string> {
+    server = createServer(listener);
+    await new Promise<void>(resolve => server!.listen(0, '127.0.0.1', resolve));
+    return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  }
+
+  describe('wrapHttpHandler', () => {
+    it('should log start and finish with HTTP attributes, continuing the incoming trace', async () => {
+      const url = await listen(wrapHttpHandler(logger, (req: IncomingMessage, res: ServerResponse) => {
+        createLogger('handler').info('Handling');
+        res.end('ok');
+      }));
+
+      await fetch(`${url}/users?page=2`, { headers: { traceparent: TRACEPARENT, 'user-agent': 'test-agent' } });
+
+      await vi.waitFor(() => expect(exporter.getFinishedLogRecords()).toHaveLength(3));
+      // Records are grouped by instrumentation scope
+      const [start, finish, handler] = exporter.getFinishedLogRecords();
+      expect(start.body.stringValue).toBe('[http] Started GET /users');
+      expect(handler.body.stringValue).toBe('[handler] Handling');
+      expect(finish.body.stringValue).toMatch(/^\[http\] Completed GET \/users 200 in \d+ms$/);
+      expect(attributesOf(finish)).toMatchObject({
+        'http.request.method': 'GET',
+        'url.path': '/users',
+        'server.address': '127.0.0.1',
+        'user_agent.original': 'test-agent',
+        'http.response.status_code': '200'
+      });
+      expect(typeof attributesOf(finish)['http.server.request.duration']).toBe('number');
+      expect([start, handler, finish].map(record => record.traceId)).toEqual([TRACE_ID, TRACE_ID, TRACE_ID]);
+    });
+
+    it('should attach the request logger to the request', async () => {
+      const url = await listen(wrapHttpHandler(logger, (req: IncomingMessage & { logger?: any }, res: ServerResponse) => {
+        res.end(String(req.logger === getRequestLogger(req) && req.logger !== undefined));
+      }));
+
+      const response = await fetch(url);
+
+      expect(await response.text()).toBe('true');
+    });
+
+    it('should log handler errors and respond with a 500', async () => {
+      const url = await listen(wrapHttpHandler(logger, async () => {
+        throw new Error('boom');
+      }, { logStart: false }));
+
+      const response = await fetch(`${url}/fail`);
+
+      expect(response.status).toBe(500);
+      await vi.waitFor(() => expect(exporter.getFinishedLogRecords()).toHaveLength(1));
+      const [record] = exporter.getFinishedLogRecords();
+      expect(record.severityText).toBe('ERROR');
+      expect(attributesOf(record)).toMatchObject({ 'exception.message': 'boom', 'http.response.status_code': '500' });
+    });
+
+    it('should defer records to the batch processor when exports are scheduled', async () => {
+      logger = new Logger({ ...config, exporters: [exporter], scheduledDelayMillis: 60000 });
+      const url = await listen(wrapHttpHandler(logger, (req: IncomingMessage, res: ServerResponse) => {
+        res.end();
+      }));
+
+      await fetch(url);
+      await new Promise(resolve => setTimeout(resolve, 20));
+      expect(exporter.getFinishedLogRecords()).toHaveLength(0);
+
+      await logger.flush();
+      expect(exporter.getFinishedLogRecords()).toHaveLength(2);
+    });
+  });
+
+  describe('createHttpMiddleware', () => {
+    it('should log the matched route and status', async () => {
+      const middleware = createHttpMiddleware(logger, { logStart: false });
+      const url = await listen((req, res) => middleware(req, res, () => {
+        // What an Express router sets once a route matches
+        Object.assign(req, { baseUrl: '/api', route: { path: '/users/:id' } });
+        res.statusCode = 404;
+        res.end();
+      }));
+
+      await fetch(`${url}/api/users/42`);
+
+      await vi.waitFor(() => expect(exporter.getFinishedLogRecords()).toHaveLength(1));
+      const [record] = exporter.getFinishedLogRecords();
+      expect(record.severityText).toBe('WARN');
+      expect(attributesOf(record)).toMatchObject({
+        'http.route': '/api/users/:id',
+        'url.path': '/api/users/42',
+        'http.response.status_code': '404'
+      });
+    });
+  });
+
+  describe('wrapFetchHandler', () => {
+    it('should log fetch requests and pass extra arguments through', async () => {
+      const handler = wrapFetchHandler(logger, (request: Request, env: { name: string }) => {
+        getRequestLogger(request)!.info(`Hello ${env.name}`);
+        return new Response('created', { status: 201 });
+      });
+
+      const response = await handler(
+        new Request('https://example.com/users', { method: 'POST', headers: { traceparent: TRACEPARENT } }),
+        { name: 'worker' }
+      );
+
+      expect(response.status).toBe(201);
+      const records = exporter.getFinishedLogRecords();
+      expect(records.map(record => record.body.stringValue)).toEqual([
+        '[http] Started POST /users',
+        '[http] Hello worker',
+        expect.stringMatching(/^\[http\] Completed POST \/users 201 in \d+ms$/)
+      ]);
+      expect(attributesOf(records[2])).toMatchObject({ 'url.scheme': 'https', 'server.address': 'example.com' });
+      expect(records.every(record => record.traceId === TRACE_ID)).toBe(true);
+    });
+
+    it('should log and rethrow handler errors', async () => {
+      const handler = wrapFetchHandler(logger, () => {
+        throw new Error('boom');
+      });
+
+      await expect(handler(new Request('https://example.com/fail'))).rejects.toThrow('boom');
+
+      const [, failure] = exporter.getFinishedLogRecords();
+      expect(failure.severityText).toBe('ERROR');
+      expect(failure.body.stringValue).toMatch(/^\[http\] Failed GET \/fail after \d+ms$/);
+    });
+  });
+});
@@ -0,0 +1,223 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  OtelBackend,
+  LogLevel,
+  InMemoryExporter,
+  ExportResultCode,
+  FileBufferStorage,
+  LocalStorageBufferStorage
+} from '../src/node';
+import { config } from './helpers';
+
+const offlineConfig = { ...config, scheduledDelayMillis: 0 };
+
+/**
+ * In-memory exporter that can be switched between failing and succeeding
+ */
+class FlakyExporter extends InMemoryExporter {
+  failing = true;
+
+  async export(...args: Parameters<InMemoryExporter['export']>) {
+    return this.failing ? { code: ExportResultCode.FAILED } : super.export(...args);
+  }
+}
+
+describe('Offline Buffer', () => {
+  let directory: string;
+  let file: string;
+
+  beforeEach(() => {
+    directory = fs.mkdtempSync(path.join(os.tmpdir(), 'otel-http-logger-test-'));
+    file = path.join(directory, 'buffer.ndjson');
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    fs.rmSync(directory, { recursive: true, force: true });
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe('FileBufferStorage', () => {
+    it('should append and load entries in order', async () => {
+      const storage = new FileBufferStorage(file);
+
+      await storage.append('one');
+      await storage.append('two');
+
+      expect(await storage.load()).toEqual(['one', 'two']);
+    });
+
+    it('should rotate files and drop the oldest once full', async () => {
+      // Three files of 8 bytes each, one entry per file
+      const storage = new FileBufferStorage(file, 24, 3);
+
+      for (const entry of ['first', 'second', 'third', 'fourth']) {
+        await storage.append(entry);
+      }
+
+      expect(await storage.load()).toEqual(['second', 'third', 'fourth']);
+      expect(fs.existsSync(`${file}.2`)).toBe(true);
+    });
+
+    it('should replace every file with the remaining entries', async () => {
+      const storage = new FileBufferStorage(file, 24, 3);
+      for (const entry of ['first', 'second', 'third']) {
+        await storage.append(entry);
+      }
+
+      await storage.replace(['third']);
+      expect(await storage.load()).toEqual(['third']);
+      expect(fs.existsSync(`${file}.1`)).toBe(false);
+
+      await storage.replace([]);
+      expect(fs.existsSync(file)).toBe(false);
+    });
+
+    it('should keep every file when writing the replacement fails', async () => {
+      const storage = new FileBufferStorage(file, 24, 3);
+      for (const entry of ['first', 'second', 'third']) {
+        await storage.append(entry);
+      }
+      // A directory in place of the temporary file makes the write fail
+      fs.mkdirSync(`${file}.tmp`);
+
+      await expect(storage.replace(['third'])).rejects.toThrow();
+      expect(await storage.load()).toEqual(['first', 'second', 'third']);
+    });
+
+    it('should load nothing when no file exists', async () => {
+      expect(await new FileBufferStorage(file).load()).toEqual([]);
+    });
+  });
+
+  describe('LocalStorageBufferStorage', () => {
+    let items: Map<string, string>;
+
+    beforeEach(() => {
+      items = new Map();
+      vi.stubGlobal('localStorage', {
+        getItem: (key: string) => items.get(key) ?? null,
+        setItem: (key: string, value: string) => items.set(key, value),
+        removeItem: (key: string) => items.delete(key)
+      });
+    });
+
+    it('should keep the newest entries within the size cap', async () => {
+      const storage = new LocalStorageBufferStorage('buffer', 10);
+
+      await storage.append('aaaa');
+      await storage.append('bbbb');
+      await storage.append('cccc');
+
+      expect(await storage.load()).toEqual(['bbbb', 'cccc']);
+      expect(items.get('buffer')).toBe('bbbb\ncccc');
+    });
+
+    it('should remove the key when no entries are left', async () => {
+      const storage = new LocalStorageBufferStorage('buffer');
+      await storage.append('aaaa');
+
+      await storage.replace([]);
+
+      expect(items.has('buffer')).toBe(false);
+    });
+  });
+
+  describe('OtelBackend', () => {
+    it('should store failed batches instead of keeping them in memory', async () => {
+      const exporter = new FlakyExporter();
+      const backend = new OtelBackend({ ...offlineConfig, exporters: [exporter], offlineBuffer: { path: file } });
+
+      backend.createLogRecord(LogLevel.ERROR, 'During the outage');
+      await backend.flush();
+
+      expect((backend as any).logProcessor.size).toBe(0);
+      const [entry] = await new FileBufferStorage(file).load();
+      expect(JSON.parse(entry).signal).toBe('logs');
+    });
+
+    it('should replay stored batches after the next successful export', async () => {
+      const exporter = new FlakyExporter();
+      const backend = new OtelBackend({ ...offlineConfig, exporters: [exporter], offlineBuffer: { path: file } });
+
+      backend.createLogRecord(LogLevel.ERROR, 'During the outage');
+      await backend.flush();
+      exporter.failing = false;
+      backend.createLogRecord(LogLevel.INFO, 'Recovered');
+      await backend.flush();
+
+      await vi.waitFor(() => expect(exporter.getFinishedLogRecords()).toHaveLength(2));
+      expect(exporter.getFinishedLogRecords().map(r => r.body.stringValue)).toEqual(['Recovered', 'During the outage']);
+      await vi.waitFor(() => expect(fs.existsSync(file)).toBe(false));
+    });
+
+    it('should replay batches left by a previous run on startup', async () => {
+      const failing = new FlakyExporter();
+      const crashed = new OtelBackend({ ...offlineConfig, exporters: [failing], offlineBuffer: { path: file } });
+      crashed.createLogRecord(LogLevel.ERROR, 'Before the crash');
+      await crashed.flush();
+
+      const exporter = new InMemoryExporter();
+      new OtelBackend({ ...offlineConfig, exporters: [exporter], offlineBuffer: { path: file } });
+
+      await vi.waitFor(() => expect(exporter.getFinishedLogRecords()).toHaveLength(1));
+      expect(exporter.getFinishedLogRecords()[0].body.stringValue).toBe('Before the crash');
+    });
+
+    it('should skip corrupted entries', async () => {
+      const request = { resourceLogs: [] };
+      fs.writeFileSync(file, `{"signal":"logs","request":${JSON.stringify(request)}}\n{"signal":"lo\n`);
+      const exporter = new InMemoryExporter();
+
+      new OtelBackend({ ...offlineConfig, exporters: [exporter], offlineBuffer: { path: file } });
+
+      await vi.waitFor(() => expect(exporter.getExportedBatches()).toHaveLength(1));
+      await vi.waitFor(() => expect(fs.existsSync(file)).toBe(false));
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Skipping 1 corrupted entries'));
+    });
+
+    it('should store batches that failed on some exporters for those exporters only', async () => {
+      const flaky = new FlakyExporter();
+      const working = new InMemoryExporter();
+      const backend = new OtelBackend({ ...offlineConfig, exporters: [working, flaky], offlineBuffer: { path: file } });
+
+      backend.createLogRecord(LogLevel.ERROR, 'During the outage');
+      await backend.flush();
+      const [entry] = await new FileBufferStorage(file).load();
+      expect(JSON.parse(entry).exporters).toEqual([1]);
+
+      flaky.failing = false;
+      backend.createLogRecord(LogLevel.INFO, 'Recovered');
+      await backend.flush();
+
+      await vi.waitFor(() => expect(flaky.getFinishedLogRecords()).toHaveLength(2));
+      expect(working.getFinishedLogRecords().map(r => r.body.stringValue)).toEqual(['During the outage', 'Recovered']);
+    });
+
+    it('should keep failed batches in memory without a path on Node.js', async () => {
+      const backend = new OtelBackend({ ...offlineConfig, exporters: [new FlakyExporter()], offlineBuffer: true });
+
+      backend.createLogRecord(LogLevel.ERROR, 'During the outage');
+      await backend.flush();
+
+      expect((backend as any).logProcessor.size).toBe(1);
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Set offlineBuffer.path'));
+    });
+
+    it('should keep batches larger than the buffer in memory', async () => {
+      const exporter = new FlakyExporter();
+      const backend = new OtelBackend({ ...offlineConfig, exporters: [exporter], offlineBuffer: { path: file, maxBytes: 100 } });
+
+      backend.createLogRecord(LogLevel.ERROR, 'Too large to store');
+      await backend.flush();
+
+      expect((backend as any).logProcessor.size).toBe(1);
+      expect(fs.existsSync(file)).toBe(false);
+    });
+  });
+});
@@ -1,5 +1,5 @@
 import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
-import { OtelBackend, LogLevel, generateTraceId, generateSpanId } from '../src';
+import { OtelBackend, LogLevel, generateTraceId, generateSpanId, deriveTracesEndpoint } from '../src';
 
 describe('OpenTelemetry Backend', () => {
   // Mock fetch
@@ -49,8 +49,20 @@ describe('OpenTelemetry Backend', () => {
     });
   });
 
+  describe('Endpoint Derivation', () => {
+    it('should derive the traces endpoint from a logs endpoint', () => {
+      expect(deriveTracesEndpoint('https://collector/v1/logs')).toBe('https://collector/v1/traces');
+      expect(deriveTracesEndpoint('https://collector/v1/logs/')).toBe('https://collector/v1/traces');
+    });
+
+    it('should not derive a traces endpoint from other URLs', () => {
+      expect(deriveTracesEndpoint('https://collector/ingest')).toBe('');
+      expect(deriveTracesEndpoint('')).toBe('');
+    });
+  });
+
   describe('Log Record Creation', () => {
-    it('should create log records with the correct structure', () => {
+    it('should create log records with the correct structure', async () => {
       const backend = new OtelBackend({
         endpoint: 'https://test.endpoint/v1/logs',
         headers: { 'Authorization': 'test-token' },
@@ -58,20 +70,12 @@ describe('OpenTelemetry Backend', () => {
         environment: 'test'
       });
 
-      // Mock the flush method to capture the log record
-      let capturedRecord: any = null;
-      const originalFlush = backend.flush;
-      backend.flush = vi.fn().mockImplementation(async function(this: any) {
-        if (this.logQueue.length > 0) {
-          capturedRecord = this.logQueue[0];
-        }
-        return originalFlush.call(this);
-      });
-
       backend.createLogRecord(LogLevel.INFO, 'Test message', { key: 'value' });
       
-      // Flush to capture the record
-      backend.flush();
+      // Flush to capture the record from the exported payload
+      await backend.flush();
+      const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+      const capturedRecord = payload.resourceLogs[0].scopeLogs[0].logRecords[0];
       
       // Verify record structure
       expect(capturedRecord).toHaveProperty('timestamp');
@@ -103,6 +107,51 @@ describe('OpenTelemetry Backend', () => {
     });
   });
 
+  describe('Attribute Encoding', () => {
+    it('should send typed attribute values', async () => {
+      const backend = new OtelBackend({
+        endpoint: 'https://test.endpoint/v1/logs',
+        headers: {},
+        serviceName: 'test-service',
+        environment: 'test'
+      });
+
+      backend.createLogRecord(LogLevel.INFO, 'Request done', {
+        durationMs: 125,
+        ratio: 0.5,
+        cached: false,
+        tags: ['a', 'b']
+      });
+      await backend.flush();
+
+      const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+      const attributes = payload.resourceLogs[0].scopeLogs[0].logRecords[0].attributes;
+      expect(attributes).toContainEqual({ key: 'durationMs', value: { intValue: '125' } });
+      expect(attributes).toContainEqual({ key: 'ratio', value: { doubleValue: 0.5 } });
+      expect(attributes).toContainEqual({ key: 'cached', value: { boolValue: false } });
+      expect(attributes).toContainEqual({
+        key: 'tags',
+        value: { arrayValue: { values: [{ stringValue: 'a' }, { stringValue: 'b' }] } }
+      });
+    });
+
+    it('should not throw on self-referencing attributes during flush', async () => {
+      const backend = new OtelBackend({
+        endpoint: 'https://test.endpoint/v1/logs',
+        headers: {},
+        serviceName: 'test-service',
+        environment: 'test'
+      });
+
+      const request: Record<string, any> = { id: 'r1' };
+      request.parent = request;
+
+      backend.createLogRecord(LogLevel.INFO, 'Cyclic', { request });
+      await expect(backend.flush()).resolves.toBeUndefined();
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+    });
+  });
+
   describe('Log Transmission', () => {
     it('should send logs to the OTLP endpoint', async () => {
       const backend = new OtelBackend({
@@ -138,20 +187,18 @@ describe('OpenTelemetry Backend', () => {
       // Mock fetch to return an error
       mockFetch.mockResolvedValue({
         ok: false,
-        status: 500,
-        statusText: 'Internal Server Error'
+        status: 503,
+        statusText: 'Service Unavailable'
       });
 
       const backend = new OtelBackend({
         endpoint: 'https://test.endpoint/v1/logs',
         headers: { 'Authorization': 'test-token' },
         serviceName: 'test-service',
-        environment: 'test'
+        environment: 'test',
+        // Reduce retries and delay for faster test
+        retry: { maxRetries: 1, initialBackoffMillis: 10 }
       });
-      
-      // Reduce retry delay for testing
-      (backend as any).retryDelay = 10;
-      (backend as any).maxRetries = 1; // Reduce retries for faster test
 
       backend.createLogRecord(LogLevel.INFO, 'Test message');
       await backend.flush();
@@ -163,6 +210,89 @@ describe('OpenTelemetry Backend', () => {
       expect(mockFetch).toHaveBeenCalledTimes(2); // Initial + 1 retry
     });
 
+    it('should export automatically once a batch is full', async () => {
+      const backend = new OtelBackend({
+        endpoint: 'https://test.endpoint/v1/logs',
+        headers: {},
+        serviceName: 'test-service',
+        environment: 'test',
+        maxExportBatchSize: 2,
+        scheduledDelayMillis: 0
+      });
+
+      backend.createLogRecord(LogLevel.INFO, 'First');
+      backend.createLogRecord(LogLevel.INFO, 'Second');
+
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(1));
+      const payload = JSON.parse(mockFetch.mock.calls[0][1].body);
+      expect(payload.resourceLogs[0].scopeLogs[0].logRecords).toHaveLength(2);
+    });
+
+    it('should pass maxConcurrentExports to the batch processor', async () => {
+      mockFetch.mockImplementation(() => new Promise(() => {}));
+      const backend = new OtelBackend({
+        endpoint: 'https://test.endpoint/v1/logs',
+        headers: {},
+        serviceName: 'test-service',
+        environment: 'test',
+        maxExportBatchSize: 1,
+        scheduledDelayMillis: 0,
+        maxConcurrentExports: 2
+      });
+
+      backend.createLogRecord(LogLevel.INFO, 'First');
+      backend.createLogRecord(LogLevel.INFO, 'Second');
+      void backend.flush();
+
+      await vi.waitFor(() => expect(mockFetch).toHaveBeenCalledTimes(2));
+    });
+
+    it('should send a warning with the dropped count once the exporter recovers', async () => {
+      mockFetch.mockResolvedValue({
+        ok: false,
+        status: 503,
+        statusText: 'Service Unavailable'
+      });
+
+      const backend = new OtelBackend({
+        endpoint: 'https://test.endpoint/v1/logs',
+        headers: {},
+        serviceName: 'test-service',
+        environment: 'test',
+        maxQueueSize: 2,
+        scheduledDelayMillis: 0,
+        dropPolicy: 'oldest',
+        retry: { maxRetries: 0 }
+      });
+      // Only export on explicit flushes
+      (backend as any).logProcessor.exporting = true;
+
+      backend.createLogRecord(LogLevel.INFO, 'One');
+      backend.createLogRecord(LogLevel.INFO, 'Two');
+      await backend.flush();
+      backend.createLogRecord(LogLevel.INFO, 'Three');
+
+      mockFetch.mockReset();
+      mockFetch.mockResolvedValue({ ok: true, status: 200, statusText: 'OK' });
+      await backend.flush();
+
+      const bodies = mockFetch.mock.calls.flatMap(call =>
+        JSON.parse(call[1].body).resourceLogs[0].scopeLogs[0].logRecords.map((r: any) => r.body.stringValue)
+      );
+      expect(bodies).toEqual([
+        'Two',
+        'Three',
+        'Dropped 1 log records because the export queue was full'
+      ]);
+
+      const warning = JSON.parse(mockFetch.mock.calls[1][1].body).resourceLogs[0].scopeLogs[0].logRecords[0];
+      expect(warning.severityText).toBe('WARN');
+      expect(warning.attributes).toContainEqual({
+        key: 'otel.dropped_records',
+        value: { intValue: '1' }
+      });
+    });
+
     it('should skip sending if no endpoint is configured', async () => {
       const backend = new OtelBackend({
         endpoint: '',
@@ -173,14 +303,18 @@ describe('OpenTelemetry Backend', () => {
 
       backend.createLogRecord(LogLevel.INFO, 'Test message');
       await backend.flush();
+      backend.createLogRecord(LogLevel.INFO, 'Another message');
+      await backend.flush();
 
       // Check that fetch was not called
       expect(mockFetch).not.toHaveBeenCalled();
       
-      // Check that console.info was called with a message about skipping
-      expect(console.info).toHaveBeenCalledWith(
+      // Check that a warning about skipping went to stderr once, and nothing to stdout
+      expect(console.warn).toHaveBeenCalledTimes(1);
+      expect(console.warn).toHaveBeenCalledWith(
         expect.stringContaining('No OTLP endpoint configured')
       );
+      expect(console.info).not.toHaveBeenCalled();
     });
   });
 });
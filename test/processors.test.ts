@@ -0,0 +1,171 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import v8 from 'v8';
+import { runInNewContext } from 'vm';
+import {
+  Logger,
+  LogLevel,
+  InMemoryExporter,
+  LogProcessor
+} from '../src';
+import { quietConfig, attributesOf } from './helpers';
+
+describe('Log Processors', () => {
+  let exporter: InMemoryExporter;
+
+  beforeEach(() => {
+    exporter = new InMemoryExporter();
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should enrich records with global processors', async () => {
+    const gitSha: LogProcessor = {
+      onEmit: record => { record.attributes['git.sha'] = 'abc123'; }
+    };
+    const logger = new Logger({ ...quietConfig, exporters: [exporter], processors: [gitSha] });
+
+    logger.newContext('handler').info('Handled');
+    await logger.flush();
+
+    expect(attributesOf(exporter.getFinishedLogRecords()[0])['git.sha']).toBe('abc123');
+  });
+
+  it('should drop records when a processor returns false', async () => {
+    const dropHealthChecks: LogProcessor = {
+      onEmit: (record, context) => {
+        if (context.context === 'http' && record.attributes.path === '/health') {
+          return false;
+        }
+      }
+    };
+    const logger = new Logger({ ...quietConfig, exporters: [exporter], processors: [dropHealthChecks] });
+    const http = logger.newContext('http');
+
+    http.info('Request', { path: '/health' });
+    http.info('Request', { path: '/users' });
+    await logger.flush();
+
+    expect(exporter.getFinishedLogRecords().map(r => attributesOf(r).path)).toEqual(['/users']);
+  });
+
+  it('should run processors in order and accept replacement records', async () => {
+    const calls: string[] = [];
+    const rename: LogProcessor = {
+      onEmit: record => {
+        calls.push('rename');
+        const { userId, ...rest } = record.attributes;
+        return { ...record, attributes: { ...rest, 'user.id': userId } };
+      }
+    };
+    const upgrade: LogProcessor = {
+      onEmit: record => {
+        calls.push('upgrade');
+        if (record.attributes['user.id'] === 0) {
+          record.level = LogLevel.WARN;
+          record.message = `${record.message} (anonymous)`;
+        }
+      }
+    };
+    const logger = new Logger({ ...quietConfig, exporters: [exporter], processors: [rename, upgrade] });
+
+    logger.info('Visit', { userId: 0 });
+    await logger.flush();
+
+    const [record] = exporter.getFinishedLogRecords();
+    expect(calls).toEqual(['rename', 'upgrade']);
+    expect(record.severityText).toBe('WARN');
+    expect(record.body.stringValue).toBe('Visit (anonymous)');
+    expect(attributesOf(record)).toMatchObject({ 'user.id': '0' });
+    expect(attributesOf(record)).not.toHaveProperty('userId');
+  });
+
+  it('should apply context processors to that context and its children only', async () => {
+    const tag = (name: string): LogProcessor => ({
+      onEmit: record => { record.attributes[name] = true; }
+    });
+    const logger = new Logger({ ...quietConfig, exporters: [exporter] });
+    const api = logger.newContext('api').addProcessor(tag('api'));
+    const users = api.newContext('users');
+
+    logger.info('Root');
+    api.info('Api');
+    users.info('Users');
+    await logger.flush();
+
+    const tagged = exporter.getFinishedLogRecords().map(r => r.attributes.some(a => a.key === 'api'));
+    expect(tagged).toEqual([false, true, true]);
+  });
+
+  it('should pass the emitting context and trace', async () => {
+    const onEmit = vi.fn();
+    const logger = new Logger({ ...quietConfig, exporters: [exporter], processors: [{ onEmit }] });
+
+    await logger.withSpan('work', span => {
+      logger.newContext('worker').error('Failed', new Error('boom'));
+      expect(onEmit).toHaveBeenCalledWith(
+        expect.objectContaining({ level: LogLevel.ERROR, message: 'Failed', error: expect.any(Error) }),
+        { context: 'worker', serviceName: 'test-service', environment: 'test', traceId: span.traceId, spanId: span.spanId }
+      );
+    });
+  });
+
+  it('should keep records when a processor throws', async () => {
+    const failing: LogProcessor = { onEmit: () => { throw new Error('bug'); } };
+    const logger = new Logger({ ...quietConfig, exporters: [exporter], processors: [failing] });
+
+    logger.info('Still logged');
+    await logger.flush();
+
+    expect(exporter.getFinishedLogRecords()).toHaveLength(1);
+    expect(console.error).toHaveBeenCalledWith(expect.stringContaining('Log processor failed'), expect.any(Error));
+  });
+
+  it('should run before redaction and console output', () => {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    const addToken: LogProcessor = {
+      onEmit: record => { record.attributes.token = 'secret'; }
+    };
+    const logger = new Logger({ ...quietConfig, console: 'json', exporters: [], processors: [addToken], redaction: true });
+
+    logger.info('Login');
+
+    expect(JSON.parse(log.mock.calls[0][0]).attributes.token).toBe('[REDACTED]');
+  });
+
+  it('should call onFlush and shutdown on every processor', async () => {
+    const global = { onEmit: vi.fn(), onFlush: vi.fn(), shutdown: vi.fn() };
+    const scoped = { onEmit: vi.fn(), onFlush: vi.fn(), shutdown: vi.fn() };
+    const logger = new Logger({ ...quietConfig, exporters: [exporter], processors: [global] });
+    const jobs = logger.newContext('jobs').addProcessor(scoped);
+
+    await logger.flush();
+    expect(global.onFlush).toHaveBeenCalledTimes(1);
+    expect(scoped.onFlush).toHaveBeenCalledTimes(1);
+
+    await logger.shutdown();
+    expect(global.shutdown).toHaveBeenCalledTimes(1);
+    expect(scoped.shutdown).toHaveBeenCalledTimes(1);
+    expect(jobs).toBeDefined();
+  });
+
+  it('should release the processors of discarded contexts', async () => {
+    v8.setFlagsFromString('--expose-gc');
+    const gc = runInNewContext('gc');
+    const logger = new Logger({ ...quietConfig, exporters: [exporter] });
+    const scoped = { onEmit: vi.fn(), onFlush: vi.fn() };
+    for (let i = 0; i < 10; i++) {
+      logger.newContext('request').addProcessor(scoped);
+    }
+
+    // Weakly held objects are kept until the current job ends
+    await new Promise(resolve => setTimeout(resolve, 0));
+    gc();
+    await logger.flush();
+
+    expect(scoped.onFlush).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  Logger,
+  getTraceHeaders,
+  parseTraceparent,
+  parseTracestate,
+  extractTraceContext,
+  formatTraceparent
+} from '../src';
+import { otlpConfig } from './helpers';
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const SPAN_ID = '00f067aa0ba902b7';
+const TRACEPARENT = `00-${TRACE_ID}-${SPAN_ID}-01`;
+
+describe('Trace Context Propagation', () => {
+  describe('parseTraceparent', () => {
+    it('should parse a valid version 00 header', () => {
+      expect(parseTraceparent(TRACEPARENT)).toEqual({
+        traceId: TRACE_ID,
+        spanId: SPAN_ID,
+        traceFlags: 1
+      });
+    });
+
+    it('should reject malformed headers', () => {
+      expect(parseTraceparent(undefined)).toBeUndefined();
+      expect(parseTraceparent('')).toBeUndefined();
+      expect(parseTraceparent('00-abc-def-01')).toBeUndefined();
+      expect(parseTraceparent(`00-${TRACE_ID.toUpperCase()}-${SPAN_ID}-01`)).toBeUndefined();
+      expect(parseTraceparent(`00-${TRACE_ID}-${SPAN_ID}-01-extra`)).toBeUndefined();
+      expect(parseTraceparent(`00_${TRACE_ID}_${SPAN_ID}_01`)).toBeUndefined();
+    });
+
+    it('should reject all-zero trace and parent IDs', () => {
+      expect(parseTraceparent(`00-${'0'.repeat(32)}-${SPAN_ID}-01`)).toBeUndefined();
+      expect(parseTraceparent(`00-${TRACE_ID}-${'0'.repeat(16)}-01`)).toBeUndefined();
+    });
+
+    it('should reject the reserved ff version', () => {
+      expect(parseTraceparent(`ff-${TRACE_ID}-${SPAN_ID}-01`)).toBeUndefined();
+    });
+
+    it('should parse future versions and ignore appended fields', () => {
+      expect(parseTraceparent(`cc-${TRACE_ID}-${SPAN_ID}-01-what-the-future-holds`)).toEqual({
+        traceId: TRACE_ID,
+        spanId: SPAN_ID,
+        traceFlags: 1
+      });
+      expect(parseTraceparent(`cc-${TRACE_ID}-${SPAN_ID}-01`)).toBeDefined();
+      expect(parseTraceparent(`cc-${TRACE_ID}-${SPAN_ID}-01.extra`)).toBeUndefined();
+    });
+  });
+
+  describe('parseTracestate', () => {
+    it('should keep valid list members', () => {
+      expect(parseTracestate('rojo=00f067aa0ba902b7, congo=t61rcWkgMzE')).toBe(
+        'rojo=00f067aa0ba902b7,congo=t61rcWkgMzE'
+      );
+    });
+
+    it('should drop malformed members', () => {
+      expect(parseTracestate('rojo=1,BAD=2,,=3,tenant@vendor=4')).toBe('rojo=1,tenant@vendor=4');
+    });
+
+    it('should reject headers with duplicate keys', () => {
+      expect(parseTracestate('rojo=1,rojo=2')).toBeUndefined();
+    });
+
+    it('should keep at most 32 members', () => {
+      const header = Array.from({ length: 40 }, (_, i) => `k${i}=v`).join(',');
+      expect(parseTracestate(header)?.split(',')).toHaveLength(32);
+    });
+  });
+
+  describe('extractTraceContext', () => {
+    it('should ignore tracestate when traceparent is invalid', () => {
+      expect(extractTraceContext({ traceparent: 'invalid', tracestate: 'rojo=1' })).toBeUndefined();
+    });
+
+    it('should include a valid tracestate', () => {
+      expect(extractTraceContext({ traceparent: TRACEPARENT, tracestate: 'rojo=1' })).toEqual({
+        traceId: TRACE_ID,
+        spanId: SPAN_ID,
+        traceFlags: 1,
+        traceState: 'rojo=1'
+      });
+    });
+  });
+
+  describe('formatTraceparent', () => {
+    it('should format a version 00 header', () => {
+      expect(formatTraceparent({ traceId: TRACE_ID, spanId: SPAN_ID, traceFlags: 0 })).toBe(
+        `00-${TRACE_ID}-${SPAN_ID}-00`
+      );
+    });
+  });
+
+  describe('Logger integration', () => {
+    const mockFetch = vi.fn();
+    global.fetch = mockFetch;
+
+    beforeEach(() => {
+      vi.spyOn(console, 'info').mockImplementation(() => {});
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      vi.spyOn(console, 'error').mockImplementation(() => {});
+
+      mockFetch.mockReset();
+      mockFetch.mockResolvedValue({ ok: true, status: 200, statusText: 'OK' });
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should continue an incoming trace in withLogger', async () => {
+      const logger = new Logger(otlpConfig);
+
+      await logger.withLogger(async () => {
+        logger.info('joined');
+      }, { traceparent: TRACEPARENT });
+
+      const record = JSON.parse(mockFetch.mock.calls[0][1].body).resourceLogs[0].scopeLogs[0].logRecords[0];
+      expect(record.traceId).toBe(TRACE_ID);
+      expect(record.spanId).toBe(SPAN_ID);
+    });
+
+    it('should start a new trace when the incoming header is invalid', async () => {
+      const logger = new Logger(otlpConfig);
+
+      await logger.withLogger(async () => {
+        logger.info('new trace');
+      }, { traceparent: `00-${'0'.repeat(32)}-${SPAN_ID}-01` });
+
+      const record = JSON.parse(mockFetch.mock.calls[0][1].body).resourceLogs[0].scopeLogs[0].logRecords[0];
+      expect(record.traceId).toBe(logger.getRootSpanContext().traceId);
+    });
+
+    it('should parent spans on the incoming trace context', async () => {
+      const logger = new Logger(otlpConfig);
+
+      const span = await logger.withLogger(
+        () => logger.withSpan('handle', async span => span),
+        { traceparent: TRACEPARENT }
+      );
+
+      expect(span.traceId).toBe(TRACE_ID);
+      expect(span.parentSpanId).toBe(SPAN_ID);
+    });
+
+    it('should return outgoing headers for the active span', async () => {
+      const logger = new Logger(otlpConfig);
+
+      await logger.withLogger(async () => {
+        await logger.withSpan('call-downstream', async span => {
+          expect(getTraceHeaders()).toEqual({
+            traceparent: `00-${TRACE_ID}-${span.spanId}-00`,
+            tracestate: 'rojo=1'
+          });
+        });
+      }, { traceparent: `00-${TRACE_ID}-${SPAN_ID}-00`, tracestate: 'rojo=1' });
+    });
+
+    it('should return outgoing headers for the root span outside any span', async () => {
+      const logger = new Logger(otlpConfig);
+      const { traceId, spanId } = logger.getRootSpanContext();
+
+      await logger.withLogger(() => {
+        expect(getTraceHeaders()).toEqual({ traceparent: `00-${traceId}-${spanId}-01` });
+      });
+    });
+
+    it('should return no headers outside a logger context', () => {
+      expect(getTraceHeaders()).toEqual({});
+    });
+  });
+});
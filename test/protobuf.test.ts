@@ -0,0 +1,243 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import path from 'path';
+import protobuf from 'protobufjs';
+import {
+  OtelBackend,
+  LogLevel,
+  SpanStatusCode,
+  encodeExportLogsServiceRequest,
+  encodeExportTraceServiceRequest,
+  decodeExportPartialSuccess,
+  toKeyValueList,
+  ExportLogsServiceRequest,
+  ExportTraceServiceRequest
+} from '../src';
+
+// Load the opentelemetry-proto definitions used to verify the encoder
+const protoRoot = new protobuf.Root();
+protoRoot.resolvePath = (_origin, target) => path.join(__dirname, 'proto', target);
+protoRoot.loadSync([
+  'opentelemetry/proto/collector/logs/v1/logs_service.proto',
+  'opentelemetry/proto/collector/trace/v1/trace_service.proto'
+]);
+
+const ExportLogsRequestType = protoRoot.lookupType('opentelemetry.proto.collector.logs.v1.ExportLogsServiceRequest');
+const ExportTraceRequestType = protoRoot.lookupType('opentelemetry.proto.collector.trace.v1.ExportTraceServiceRequest');
+const ExportLogsResponseType = protoRoot.lookupType('opentelemetry.proto.collector.logs.v1.ExportLogsServiceResponse');
+
+const decodeOptions = { longs: String, bytes: String, enums: Number, defaults: false };
+
+const TRACE_ID = '4bf92f3577b34da6a3ce929d0e0e4736';
+const SPAN_ID = '00f067aa0ba902b7';
+
+function hexToBase64(hex: string): string {
+  return Buffer.from(hex, 'hex').toString('base64');
+}
+
+function decode(type: protobuf.Type, bytes: Uint8Array): any {
+  return type.toObject(type.decode(bytes), decodeOptions);
+}
+
+describe('Protobuf Encoding', () => {
+  const logsRequest: ExportLogsServiceRequest = {
+    resourceLogs: [
+      {
+        resource: {
+          attributes: toKeyValueList({ 'service.name': 'test-service' })
+        },
+        scopeLogs: [
+          {
+            scope: { name: 'handler', version: '1.0.0' },
+            logRecords: [
+              {
+                timestamp: '1700000000000000001',
+                observedTimestamp: '1700000000000000002',
+                severityNumber: 13,
+                severityText: 'WARN',
+                body: { stringValue: 'Slow request ✓' },
+                traceId: TRACE_ID,
+                spanId: SPAN_ID,
+                attributes: toKeyValueList({
+                  durationMs: 1250,
+                  negative: -42,
+                  ratio: 0.25,
+                  cached: false,
+                  empty: '',
+                  tags: ['a', 1],
+                  nested: { ok: true },
+                  raw: new Uint8Array([0, 255]),
+                  nothing: null
+                })
+              }
+            ]
+          }
+        ]
+      }
+    ]
+  };
+
+  describe('ExportLogsServiceRequest', () => {
+    it('should decode with the official proto definitions', () => {
+      const decoded = decode(ExportLogsRequestType, encodeExportLogsServiceRequest(logsRequest));
+      const scopeLogs = decoded.resourceLogs[0].scopeLogs[0];
+      const record = scopeLogs.logRecords[0];
+
+      expect(decoded.resourceLogs[0].resource.attributes).toEqual([
+        { key: 'service.name', value: { stringValue: 'test-service' } }
+      ]);
+      expect(scopeLogs.scope).toEqual({ name: 'handler', version: '1.0.0' });
+      expect(record).toMatchObject({
+        timeUnixNano: '1700000000000000001',
+        observedTimeUnixNano: '1700000000000000002',
+        severityNumber: 13,
+        severityText: 'WARN',
+        body: { stringValue: 'Slow request ✓' },
+        traceId: hexToBase64(TRACE_ID),
+        spanId: hexToBase64(SPAN_ID)
+      });
+      expect(record.attributes).toEqual([
+        { key: 'durationMs', value: { intValue: '1250' } },
+        { key: 'negative', value: { intValue: '-42' } },
+        { key: 'ratio', value: { doubleValue: 0.25 } },
+        { key: 'cached', value: { boolValue: false } },
+        { key: 'empty', value: { stringValue: '' } },
+        {
+          key: 'tags',
+          value: { arrayValue: { values: [{ stringValue: 'a' }, { intValue: '1' }] } }
+        },
+        {
+          key: 'nested',
+          value: { kvlistValue: { values: [{ key: 'ok', value: { boolValue: true } }] } }
+        },
+        { key: 'raw', value: { bytesValue: 'AP8=' } },
+        { key: 'nothing', value: {} }
+      ]);
+    });
+
+    it('should match the canonical encoding byte for byte', () => {
+      const bytes = encodeExportLogsServiceRequest(logsRequest);
+      const reencoded = ExportLogsRequestType.encode(ExportLogsRequestType.decode(bytes)).finish();
+
+      expect(Buffer.from(bytes).toString('hex')).toBe(Buffer.from(reencoded).toString('hex'));
+    });
+  });
+
+  describe('ExportTraceServiceRequest', () => {
+    const traceRequest: ExportTraceServiceRequest = {
+      resourceSpans: [
+        {
+          resource: { attributes: toKeyValueList({ 'service.name': 'test-service' }) },
+          scopeSpans: [
+            {
+              spans: [
+                {
+                  traceId: TRACE_ID,
+                  spanId: SPAN_ID,
+                  parentSpanId: 'b7ad6b7169203331',
+                  name: 'load-users',
+                  kind: 1,
+                  startTimeUnixNano: '1700000000000000000',
+                  endTimeUnixNano: '1700000000500000000',
+                  attributes: toKeyValueList({ rows: 3 }),
+                  events: [
+                    {
+                      timeUnixNano: '1700000000100000000',
+                      name: 'exception',
+                      attributes: toKeyValueList({ 'exception.message': 'boom' })
+                    }
+                  ],
+                  status: { code: SpanStatusCode.ERROR, message: 'boom' }
+                }
+              ]
+            }
+          ]
+        }
+      ]
+    };
+
+    it('should decode with the official proto definitions', () => {
+      const decoded = decode(ExportTraceRequestType, encodeExportTraceServiceRequest(traceRequest));
+      const span = decoded.resourceSpans[0].scopeSpans[0].spans[0];
+
+      expect(span).toEqual({
+        traceId: hexToBase64(TRACE_ID),
+        spanId: hexToBase64(SPAN_ID),
+        parentSpanId: hexToBase64('b7ad6b7169203331'),
+        name: 'load-users',
+        kind: 1,
+        startTimeUnixNano: '1700000000000000000',
+        endTimeUnixNano: '1700000000500000000',
+        attributes: [{ key: 'rows', value: { intValue: '3' } }],
+        events: [
+          {
+            timeUnixNano: '1700000000100000000',
+            name: 'exception',
+            attributes: [{ key: 'exception.message', value: { stringValue: 'boom' } }]
+          }
+        ],
+        status: { code: 2, message: 'boom' }
+      });
+    });
+
+    it('should match the canonical encoding byte for byte', () => {
+      const bytes = encodeExportTraceServiceRequest(traceRequest);
+      const reencoded = ExportTraceRequestType.encode(ExportTraceRequestType.decode(bytes)).finish();
+
+      expect(Buffer.from(bytes).toString('hex')).toBe(Buffer.from(reencoded).toString('hex'));
+    });
+  });
+
+  describe('ExportPartialSuccess', () => {
+    it('should decode the rejected count and error message of a response', () => {
+      const response = ExportLogsResponseType.encode(ExportLogsResponseType.fromObject({
+        partialSuccess: { rejectedLogRecords: 3, errorMessage: 'Invalid attributes' }
+      })).finish();
+
+      expect(decodeExportPartialSuccess(response)).toEqual({ rejected: 3, errorMessage: 'Invalid attributes' });
+    });
+
+    it('should treat an empty response as a full success', () => {
+      expect(decodeExportPartialSuccess(new Uint8Array())).toEqual({ rejected: 0 });
+    });
+  });
+
+  describe('Backend protocol option', () => {
+    const mockFetch = vi.fn();
+
+    beforeEach(() => {
+      global.fetch = mockFetch;
+      vi.spyOn(console, 'info').mockImplementation(() => {});
+      mockFetch.mockReset();
+      mockFetch.mockResolvedValue({ ok: true, status: 200, statusText: 'OK' });
+    });
+
+    afterEach(() => {
+      vi.restoreAllMocks();
+    });
+
+    it('should send protobuf bodies with the protobuf content type', async () => {
+      const backend = new OtelBackend({
+        endpoint: 'https://test.endpoint/v1/logs',
+        headers: { 'content-type': 'application/json', 'Authorization': 'test-token' },
+        serviceName: 'test-service',
+        environment: 'test',
+        protocol: 'http/protobuf'
+      });
+
+      backend.createLogRecord(LogLevel.INFO, 'Binary message', { count: 2 });
+      await backend.flush();
+
+      const [, init] = mockFetch.mock.calls[0];
+      expect(init.headers).toEqual({
+        'Authorization': 'test-token',
+        'Content-Type': 'application/x-protobuf'
+      });
+      expect(init.body).toBeInstanceOf(Uint8Array);
+
+      const decoded = decode(ExportLogsRequestType, init.body);
+      const record = decoded.resourceLogs[0].scopeLogs[0].logRecords[0];
+      expect(record.body).toEqual({ stringValue: 'Binary message' });
+      expect(record.attributes).toContainEqual({ key: 'count', value: { intValue: '2' } });
+    });
+  });
+});
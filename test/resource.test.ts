@@ -0,0 +1,126 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Logger, InMemoryExporter, detectRuntime, detectResource, toKeyValueList } from '../src';
+import { config } from './helpers';
+
+describe('Resource and Scope', () => {
+  const versionsDescriptor = Object.getOwnPropertyDescriptor(process, 'versions')!;
+
+  beforeEach(() => {
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    Object.defineProperty(process, 'versions', versionsDescriptor);
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe('detectRuntime', () => {
+    it('should detect Node.js', () => {
+      expect(detectRuntime()).toEqual({
+        'process.runtime.name': 'nodejs',
+        'process.runtime.version': process.versions.node,
+        'process.pid': process.pid,
+        'telemetry.sdk.name': 'otel-http-logger',
+        'telemetry.sdk.language': 'nodejs'
+      });
+    });
+
+    it('should detect Bun', () => {
+      Object.defineProperty(process, 'versions', { ...versionsDescriptor, value: { node: '22.0.0', bun: '1.1.0' } });
+
+      expect(detectRuntime()).toMatchObject({ 'process.runtime.name': 'bun', 'process.runtime.version': '1.1.0' });
+    });
+
+    it('should detect Deno', () => {
+      vi.stubGlobal('Deno', { version: { deno: '2.0.0' }, pid: 42 });
+
+      expect(detectRuntime()).toMatchObject({
+        'process.runtime.name': 'deno',
+        'process.runtime.version': '2.0.0',
+        'process.pid': 42
+      });
+    });
+
+    it('should detect browsers', () => {
+      Object.defineProperty(process, 'versions', { ...versionsDescriptor, value: {} });
+      vi.stubGlobal('navigator', { userAgent: 'Mozilla/5.0 Test' });
+
+      expect(detectRuntime()).toEqual({
+        'process.runtime.name': 'browser',
+        'user_agent.original': 'Mozilla/5.0 Test',
+        'telemetry.sdk.name': 'otel-http-logger',
+        'telemetry.sdk.language': 'webjs'
+      });
+    });
+  });
+
+  describe('detectResource', () => {
+    it('should merge detectors and skip ones that throw', () => {
+      const attributes = detectResource([
+        () => ({ 'host.name': 'a', 'cloud.region': 'us-east-1' }),
+        () => { throw new Error('no metadata service'); },
+        () => ({ 'host.name': 'b' })
+      ]);
+
+      expect(attributes).toEqual({ 'host.name': 'b', 'cloud.region': 'us-east-1' });
+      expect(console.warn).toHaveBeenCalledWith('Resource detector failed:', expect.any(Error));
+    });
+  });
+
+  describe('Logger', () => {
+    it('should export configured and detected resource attributes', async () => {
+      const exporter = new InMemoryExporter();
+      const logger = new Logger({
+        ...config,
+        exporters: [exporter],
+        resourceDetectors: [() => ({ 'host.name': 'detected', 'service.version': '0.0.0' })],
+        resourceAttributes: { 'service.version': '1.2.3', 'service.instance.id': 'instance-1', 'service.name': 'ignored' }
+      });
+
+      logger.info('Hello');
+      await logger.flush();
+
+      const [batch] = exporter.getExportedBatches();
+      expect(batch.resourceLogs[0].resource.attributes).toEqual(toKeyValueList({
+        'host.name': 'detected',
+        'service.version': '1.2.3',
+        'service.instance.id': 'instance-1',
+        'service.name': 'test-service',
+        'deployment.environment': 'test'
+      }));
+    });
+
+    it('should group records by the instrumentation scope of each context logger', async () => {
+      const exporter = new InMemoryExporter();
+      const logger = new Logger({ ...config, exporters: [exporter], scopeVersion: '2.0.0' });
+      const users = logger.newContext('handler').newContext('users');
+
+      logger.info('Root');
+      users.info('First');
+      logger.newContext('db').info('Query');
+      users.info('Second');
+      users.startSpan('load').end();
+      await logger.flush();
+
+      const scopeLogs = exporter.getExportedBatches()[0].resourceLogs[0].scopeLogs;
+      expect(scopeLogs.map(({ scope, logRecords }) => [scope, logRecords.map(r => r.body.stringValue)])).toEqual([
+        [{ name: 'test-service', version: '2.0.0' }, ['Root']],
+        [{ name: 'handler:users', version: '2.0.0' }, ['[handler:users] First', '[handler:users] Second']],
+        [{ name: 'db', version: '2.0.0' }, ['[db] Query']]
+      ]);
+      expect(exporter.getFinishedSpans()[0].name).toBe('load');
+    });
+
+    it('should use the configured root scope name', async () => {
+      const exporter = new InMemoryExporter();
+      const logger = new Logger({ ...config, exporters: [exporter], scopeName: 'my-app' });
+
+      logger.info('Hello');
+      await logger.flush();
+
+      expect(exporter.getExportedBatches()[0].resourceLogs[0].scopeLogs[0].scope).toEqual({ name: 'my-app' });
+    });
+  });
+});
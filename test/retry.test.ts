@@ -0,0 +1,63 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_RETRY_CONFIG,
+  isRetryableStatus,
+  computeBackoff,
+  parseRetryAfter
+} from '../src';
+
+describe('Retry Policy', () => {
+  describe('isRetryableStatus', () => {
+    it('should retry throttling and gateway errors', () => {
+      [429, 502, 503, 504].forEach(status => expect(isRetryableStatus(status)).toBe(true));
+    });
+
+    it('should not retry other errors', () => {
+      [400, 401, 403, 404, 413, 500, 501].forEach(status => expect(isRetryableStatus(status)).toBe(false));
+    });
+  });
+
+  describe('computeBackoff', () => {
+    const config = { ...DEFAULT_RETRY_CONFIG, initialBackoffMillis: 100, maxBackoffMillis: 1000 };
+
+    it('should grow the backoff bound exponentially', () => {
+      const almostOne = () => 0.999999;
+      expect(computeBackoff(1, config, almostOne)).toBe(99);
+      expect(computeBackoff(2, config, almostOne)).toBe(199);
+      expect(computeBackoff(3, config, almostOne)).toBe(399);
+    });
+
+    it('should cap the backoff bound', () => {
+      expect(computeBackoff(10, config, () => 0.5)).toBe(500);
+    });
+
+    it('should pick a random delay below the bound', () => {
+      expect(computeBackoff(3, config, () => 0)).toBe(0);
+      for (let i = 0; i < 20; i++) {
+        const delay = computeBackoff(2, config);
+        expect(delay).toBeGreaterThanOrEqual(0);
+        expect(delay).toBeLessThan(200);
+      }
+    });
+  });
+
+  describe('parseRetryAfter', () => {
+    const now = Date.parse('2024-01-01T00:00:00Z');
+
+    it('should parse delays in seconds', () => {
+      expect(parseRetryAfter('5', now)).toBe(5000);
+      expect(parseRetryAfter(' 0 ', now)).toBe(0);
+    });
+
+    it('should parse HTTP dates', () => {
+      expect(parseRetryAfter('Mon, 01 Jan 2024 00:00:30 GMT', now)).toBe(30000);
+      expect(parseRetryAfter('Sun, 31 Dec 2023 23:59:00 GMT', now)).toBe(0);
+    });
+
+    it('should ignore missing or invalid values', () => {
+      expect(parseRetryAfter(null, now)).toBeUndefined();
+      expect(parseRetryAfter('', now)).toBeUndefined();
+      expect(parseRetryAfter('soon', now)).toBeUndefined();
+    });
+  });
+});
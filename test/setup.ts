@@ -0,0 +1,4 @@
+// Load the Node.js entry point, as Node.js consumers resolve it through the
+// "node" export condition, so AsyncLocalStorage is registered on Node.js
+// versions without process.getBuiltinModule (before 20.16)
+import '../src/node';
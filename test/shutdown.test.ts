@@ -0,0 +1,208 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  Logger,
+  OtelBackend,
+  LogLevel,
+  InMemoryExporter,
+  LogExporter,
+  ExportLogsServiceRequest
+} from '../src';
+import { config } from './helpers';
+
+function countRecords(request: ExportLogsServiceRequest): number {
+  return request.resourceLogs.flatMap(rl => rl.scopeLogs.flatMap(sl => sl.logRecords)).length;
+}
+
+describe('Shutdown', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  describe('Logger.shutdown', () => {
+    it('should export queued records and reject further logging', async () => {
+      const exporter = new InMemoryExporter();
+      const logger = new Logger({ ...config, exporters: [exporter] });
+      const handler = logger.newContext('handler');
+
+      handler.info('Before');
+      await logger.shutdown();
+      handler.info('After');
+      logger.error('After');
+      await logger.flush();
+
+      expect(exporter.getFinishedLogRecords().map(r => r.body.stringValue)).toEqual(['[handler] Before']);
+      expect(handler.isLevelEnabled(LogLevel.ERROR)).toBe(false);
+      expect(console.warn).toHaveBeenCalledTimes(1);
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Logger has been shut down'));
+    });
+
+    it('should give up on exports that outlast the timeout', async () => {
+      const exporter: LogExporter = {
+        export: vi.fn(() => new Promise<never>(() => {})),
+        shutdown: vi.fn().mockResolvedValue(undefined)
+      };
+      const logger = new Logger({ ...config, exporters: [exporter], shutdownTimeoutMillis: 20 });
+
+      logger.info('Stuck');
+      await logger.shutdown();
+
+      expect(exporter.shutdown).toHaveBeenCalled();
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('Shutdown timed out after 20ms'));
+    });
+
+    it('should only shut down once', async () => {
+      const exporter = new InMemoryExporter();
+      const shutdown = vi.spyOn(exporter, 'shutdown');
+      const logger = new Logger({ ...config, exporters: [exporter] });
+
+      await Promise.all([logger.shutdown(), logger.newContext('a').shutdown()]);
+
+      expect(shutdown).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('Process hooks', () => {
+    it('should not register hooks unless enabled', () => {
+      const on = vi.spyOn(process, 'on');
+      new Logger(config);
+      expect(on).not.toHaveBeenCalled();
+    });
+
+    it('should shut down on beforeExit and remove its listeners', async () => {
+      const exporter = new InMemoryExporter();
+      const before = process.listenerCount('SIGTERM');
+      const logger = new Logger({ ...config, exporters: [exporter], shutdownHooks: true });
+      expect(process.listenerCount('SIGTERM')).toBe(before + 1);
+
+      logger.info('Exiting');
+      process.emit('beforeExit', 0);
+
+      await vi.waitFor(() => expect(exporter.getFinishedLogRecords()).toHaveLength(1));
+      expect(process.listenerCount('SIGTERM')).toBe(before);
+    });
+
+    it('should re-raise the signal after shutting down', async () => {
+      const kill = vi.spyOn(process, 'kill').mockImplementation(() => true);
+      const exporter = new InMemoryExporter();
+      const logger = new Logger({ ...config, exporters: [exporter], shutdownHooks: true });
+
+      logger.info('Terminating');
+      process.emit('SIGTERM', 'SIGTERM');
+
+      await vi.waitFor(() => expect(kill).toHaveBeenCalledWith(process.pid, 'SIGTERM'));
+      expect(exporter.getFinishedLogRecords()).toHaveLength(1);
+    });
+
+    it('should remove its listeners when shut down manually', async () => {
+      const before = process.listenerCount('beforeExit');
+      const logger = new Logger({ ...config, exporters: [], shutdownHooks: true });
+
+      await logger.shutdown();
+
+      expect(process.listenerCount('beforeExit')).toBe(before);
+    });
+  });
+
+  describe('Browser hooks', () => {
+    let windowTarget: EventTarget;
+    let documentTarget: EventTarget & { visibilityState: string };
+
+    beforeEach(() => {
+      windowTarget = new EventTarget();
+      documentTarget = Object.assign(new EventTarget(), { visibilityState: 'visible' });
+      vi.stubGlobal('window', windowTarget);
+      vi.stubGlobal('document', documentTarget);
+    });
+
+    it('should flush on pagehide and when the page becomes hidden', () => {
+      const exporter = new InMemoryExporter();
+      const exportSpy = vi.spyOn(exporter, 'export');
+      const logger = new Logger({ ...config, exporters: [exporter], shutdownHooks: true });
+
+      logger.info('Leaving');
+      windowTarget.dispatchEvent(new Event('pagehide'));
+      expect(exportSpy).toHaveBeenCalledWith(expect.anything(), { unloading: true });
+      expect(exporter.getFinishedLogRecords()).toHaveLength(1);
+
+      logger.info('Hidden');
+      documentTarget.dispatchEvent(new Event('visibilitychange'));
+      expect(exporter.getFinishedLogRecords()).toHaveLength(1);
+
+      documentTarget.visibilityState = 'hidden';
+      documentTarget.dispatchEvent(new Event('visibilitychange'));
+      expect(exporter.getFinishedLogRecords()).toHaveLength(2);
+    });
+  });
+
+  describe('OtlpHttpExporter on unload', () => {
+    const mockFetch = vi.fn();
+
+    beforeEach(() => {
+      mockFetch.mockReset();
+      mockFetch.mockResolvedValue({ ok: true, status: 200, statusText: 'OK' });
+      vi.stubGlobal('fetch', mockFetch);
+    });
+
+    function createBackend(headers: Record<string, string> = {}, messageSize = 10, count = 1): OtelBackend {
+      const backend = new OtelBackend({
+        ...config,
+        endpoint: 'https://test.endpoint/v1/logs',
+        headers,
+        compression: 'gzip',
+        scheduledDelayMillis: 0
+      });
+      for (let i = 0; i < count; i++) {
+        backend.createLogRecord(LogLevel.INFO, 'x'.repeat(messageSize));
+      }
+      return backend;
+    }
+
+    it('should use sendBeacon when no custom headers are needed', () => {
+      const sendBeacon = vi.fn().mockReturnValue(true);
+      vi.stubGlobal('navigator', { sendBeacon });
+
+      createBackend().flushOnUnload();
+
+      expect(sendBeacon).toHaveBeenCalledTimes(1);
+      const [url, blob] = sendBeacon.mock.calls[0];
+      expect(url).toBe('https://test.endpoint/v1/logs');
+      expect(blob.type).toBe('application/json');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('should use fetch keepalive without compression when headers are needed', () => {
+      const sendBeacon = vi.fn().mockReturnValue(true);
+      vi.stubGlobal('navigator', { sendBeacon });
+
+      createBackend({ Authorization: 'test-token' }).flushOnUnload();
+
+      expect(sendBeacon).not.toHaveBeenCalled();
+      const [, init] = mockFetch.mock.calls[0];
+      expect(init.keepalive).toBe(true);
+      expect(init.headers).toEqual({ 'Content-Type': 'application/json', Authorization: 'test-token' });
+      expect(countRecords(JSON.parse(init.body))).toBe(1);
+    });
+
+    it('should split batches to stay within the beacon size limit', () => {
+      createBackend({}, 20000, 8).flushOnUnload();
+
+      const bodies: string[] = mockFetch.mock.calls.map(call => call[1].body);
+      expect(bodies.length).toBeGreaterThan(1);
+      bodies.forEach(body => expect(new TextEncoder().encode(body).length).toBeLessThanOrEqual(65536));
+      expect(bodies.reduce((total, body) => total + countRecords(JSON.parse(body)), 0)).toBe(8);
+    });
+
+    it('should drop single records larger than the beacon size limit', () => {
+      createBackend({}, 70000).flushOnUnload();
+
+      expect(mockFetch).not.toHaveBeenCalled();
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('larger than the 65536 byte beacon limit'));
+    });
+  });
+});
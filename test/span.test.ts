@@ -0,0 +1,163 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { Logger, Span, SpanStatusCode, createLogger } from '../src';
+import { otlpConfig } from './helpers';
+
+describe('Spans', () => {
+  // Mock fetch
+  const mockFetch = vi.fn();
+  global.fetch = mockFetch;
+
+  // Mock console methods
+  beforeEach(() => {
+    vi.spyOn(console, 'debug').mockImplementation(() => {});
+    vi.spyOn(console, 'info').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    mockFetch.mockReset();
+    mockFetch.mockResolvedValue({
+      ok: true,
+      status: 200,
+      statusText: 'OK'
+    });
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  function sentTo(path: string): any[] {
+    return mockFetch.mock.calls
+      .filter(call => call[0].endsWith(path))
+      .map(call => JSON.parse(call[1].body));
+  }
+
+  function exportedSpans(): any[] {
+    return sentTo('/v1/traces').flatMap(payload =>
+      payload.resourceSpans[0].scopeSpans.flatMap((scopeSpans: any) => scopeSpans.spans)
+    );
+  }
+
+  function exportedLogs(): any[] {
+    return sentTo('/v1/logs').flatMap(payload =>
+      payload.resourceLogs[0].scopeLogs.flatMap((scopeLogs: any) => scopeLogs.logRecords)
+    );
+  }
+
+  describe('Span', () => {
+    it('should record attributes, events and status until ended', () => {
+      const onEnd = vi.fn();
+      const span = new Span('work', { traceId: 'a'.repeat(32), attributes: { a: 1 } }, onEnd);
+
+      span.setAttribute('b', 2).addEvent('checkpoint', { step: 1 }).setStatus(SpanStatusCode.OK);
+      expect(span.isRecording()).toBe(true);
+
+      span.end();
+      span.end();
+      span.setAttribute('c', 3);
+
+      expect(onEnd).toHaveBeenCalledTimes(1);
+      expect(span.isRecording()).toBe(false);
+      expect(span.getAttributes()).toEqual({ a: 1, b: 2 });
+      expect(span.getEvents().map(event => event.name)).toEqual(['checkpoint']);
+      expect(span.status).toEqual({ code: SpanStatusCode.OK, message: undefined });
+      expect(span.endTimeUnixNano).toBeGreaterThanOrEqual(span.startTimeUnixNano);
+    });
+  });
+
+  describe('Logger span API', () => {
+    it('should export spans to the traces endpoint', async () => {
+      const logger = new Logger(otlpConfig);
+
+      const span = logger.startSpan('load-users', { 'db.system': 'postgres' });
+      span.addEvent('query-sent');
+      span.end();
+      await logger.flush();
+
+      const [exported] = exportedSpans();
+      expect(exported).toMatchObject({
+        traceId: span.traceId,
+        spanId: span.spanId,
+        name: 'load-users',
+        kind: 1,
+        status: { code: SpanStatusCode.UNSET }
+      });
+      expect(exported.parentSpanId).toBeUndefined();
+      expect(exported.attributes).toContainEqual({ key: 'db.system', value: { stringValue: 'postgres' } });
+      expect(exported.events[0].name).toBe('query-sent');
+      expect(BigInt(exported.endTimeUnixNano)).toBeGreaterThanOrEqual(BigInt(exported.startTimeUnixNano));
+    });
+
+    it('should use an explicit traces endpoint when configured', async () => {
+      const logger = new Logger({ ...otlpConfig, tracesEndpoint: 'https://traces.endpoint/v1/traces' });
+
+      logger.startSpan('work').end();
+      await logger.flush();
+
+      expect(mockFetch).toHaveBeenCalledWith('https://traces.endpoint/v1/traces', expect.anything());
+    });
+
+    it('should tag logs emitted inside withSpan with the span IDs', async () => {
+      const logger = new Logger(otlpConfig);
+
+      const span = await logger.withSpan('handle', async span => {
+        logger.info('inside span');
+        return span;
+      });
+      logger.info('outside span');
+      await logger.flush();
+
+      const [inside, outside] = exportedLogs();
+      expect(inside.traceId).toBe(span.traceId);
+      expect(inside.spanId).toBe(span.spanId);
+      expect(outside.spanId).not.toBe(span.spanId);
+    });
+
+    it('should nest spans through the async context', async () => {
+      const logger = new Logger(otlpConfig);
+
+      await logger.withLogger(async () => {
+        await logger.withSpan('parent', async parent => {
+          await createLogger('db').withSpan('child', async child => {
+            createLogger('db').info('querying');
+            expect(child.parentSpanId).toBe(parent.spanId);
+            expect(child.traceId).toBe(parent.traceId);
+          });
+        });
+      });
+
+      const spans = exportedSpans();
+      const child = spans.find(span => span.name === 'child');
+      const parent = spans.find(span => span.name === 'parent');
+      expect(child.parentSpanId).toBe(parent.spanId);
+      expect(exportedLogs().find(log => log.body.stringValue.includes('querying')).spanId).toBe(child.spanId);
+    });
+
+    it('should mark spans as errors when the function throws', async () => {
+      const logger = new Logger(otlpConfig);
+
+      await expect(logger.withSpan('fail', () => {
+        throw new Error('boom');
+      })).rejects.toThrow('boom');
+      await logger.flush();
+
+      const [exported] = exportedSpans();
+      expect(exported.status).toEqual({ code: SpanStatusCode.ERROR, message: 'boom' });
+      expect(exported.events[0].name).toBe('exception');
+      expect(exported.events[0].attributes).toContainEqual({
+        key: 'exception.message',
+        value: { stringValue: 'boom' }
+      });
+    });
+
+    it('should create spans without exporting them on a console-only logger', async () => {
+      const logger = new Logger();
+
+      const result = await logger.withSpan('work', span => span.traceId);
+      await logger.flush();
+
+      expect(result).toMatch(/^[0-9a-f]{32}$/);
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+  });
+});